@@ -0,0 +1,42 @@
+import { readFileSync } from 'node:fs';
+import path from 'node:path';
+import type { Attachment, ImageAttachment } from './types';
+
+/** Media types of the image formats agent CLIs accept, by extension. */
+export const IMAGE_MEDIA_TYPES: Readonly<Record<string, string>> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+};
+
+/**
+ * Sort attachments into images (handed to the harness) and text files
+ * (inlined into the prompt). Paths resolve against `cwd`; the kind comes
+ * from the extension unless given.
+ */
+export function splitAttachments(
+  attachments: readonly Attachment[],
+  cwd?: string
+): { images: ImageAttachment[]; files: string[] } {
+  const images: ImageAttachment[] = [];
+  const files: string[] = [];
+  for (const attachment of attachments) {
+    const { path: given, kind } = typeof attachment === 'string' ? { path: attachment, kind: undefined } : attachment;
+    const resolved = path.resolve(cwd ?? '', given);
+    const mediaType = IMAGE_MEDIA_TYPES[path.extname(resolved).toLowerCase()];
+    if (kind === 'image' || (kind === undefined && mediaType)) {
+      images.push({ path: resolved, mediaType: mediaType ?? 'application/octet-stream' });
+    } else {
+      files.push(resolved);
+    }
+  }
+  return { images, files };
+}
+
+/** Append text files to a prompt, each wrapped in an <attachment> block. */
+export function inlineTextFiles(prompt: string, files: readonly string[]): string {
+  const blocks = files.map((file) => `<attachment path="${file}">\n${readFileSync(file, 'utf-8')}\n</attachment>`);
+  return [prompt, ...blocks].filter(Boolean).join('\n\n');
+}
@@ -1,5 +1,32 @@
-import type { HarnessConfig, BuildOptions, CommandSpec, HarnessName } from './types';
-import { getHarness } from './harnesses';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import type {
+  HarnessConfig,
+  BuildOptions,
+  BuildStep,
+  CommandSegment,
+  CommandSpec,
+  ExplainedCommand,
+  HarnessName,
+  OptionDelivery,
+} from './types';
+import { canonicalizeHarness, getHarness } from './harnesses';
+import { getHarnessProfile } from './harnesses/profiles';
+import { resolveModelAlias } from './harnesses/models';
+import { validateBuildOptions } from './capabilities';
+import { detectVersion, versionInRange } from './version';
+import { normalizeReasoningEffort } from './reasoning';
+import { inlineTextFiles, splitAttachments } from './attachments';
+import { PERMISSION_LEVELS } from './permissions';
+import { deniesCategory } from './tools';
+
+/**
+ * Largest prompt (UTF-8 bytes) kept in argv. Linux caps a single argument
+ * at 128 KiB (MAX_ARG_STRLEN) and macOS all of argv plus env at 256 KiB;
+ * larger prompts switch to the harness's largePromptVia.
+ */
+export const MAX_ARGV_PROMPT_BYTES = 100_000;
 
 /**
  * Build a CLI command from harness name + options.
@@ -12,14 +39,41 @@ import { getHarness } from './harnesses';
  * - Output parsing (project-specific)
  * - Process lifecycle (project-specific)
  * - Streaming/format flags (caller appends via extraArgs)
+ *
+ * Profile names (claude@work) use the profile's binary, extra args and
+ * env, plus its model when the caller gives none. Model aliases from the
+ * catalog ('best', 'fast') are resolved to model IDs.
+ *
+ * With `strict`, options the harness cannot honor throw instead of being
+ * dropped (see validateBuildOptions). Attachments and forks are never
+ * dropped: unsupported ones always throw (a fork must not fall back to a
+ * fresh session or to resuming the parent).
  */
 export function buildCommand(harness: HarnessName | string, options: BuildOptions = {}): CommandSpec {
+  return explainCommand(harness, options).spec;
+}
+
+/**
+ * buildCommand, plus the argv split into segments labeled with the build
+ * step that produced them (for `agent-cli build --format explain`).
+ * Segments concatenate to spec.argv.
+ */
+export function explainCommand(harness: HarnessName | string, options: BuildOptions = {}): ExplainedCommand {
   const config = getHarness(harness);
-  return buildFromConfig(config, options);
+  const issues = validateBuildOptions(harness, options).filter((issue) =>
+    options.strict ? issue.severity !== 'info' : issue.option === 'attachments' || issue.option === 'forkFromSessionId');
+  if (issues.length > 0) {
+    throw new Error(`Unsupported options for ${harness}: ${issues.map((issue) => issue.message).join('; ')}`);
+  }
+  const model = options.model ?? getHarnessProfile(harness)?.model;
+  if (!model) {
+    return buildFromConfig(config, options);
+  }
+  return buildFromConfig(config, { ...options, model: resolveModelAlias(canonicalizeHarness(harness), model) });
 }
 
 /**
- * Single handler: config data → CommandSpec.
+ * Single handler: config data → CommandSpec (and its argv by step).
  *
  * No structural branching — config fields drive everything.
  * The switch on promptVia is algorithmic (reading a field value
@@ -27,36 +81,104 @@ export function buildCommand(harness: HarnessName | string, options: BuildOption
  * of harness is this?").
  *
  * Flag ordering:
- *   binary → baseCmd → sessionResume (if resuming)
- *   → bypassFlags → cwdFlag (if NOT resuming) → modelFlags
- *   → sessionCreate (if NOT resuming) → prompt → extraArgs
+ *   binary → baseCmd → sessionResume (if resuming) / sessionFork (if forking)
+ *   → permission level → cwdFlag (if NOT resuming/forking) → additional dirs → modelFlags
+ *   → reasoning → maxTurns → system prompt → tools → MCP servers → images → output schema
+ *   → sessionCreate (if NOT resuming)
+ *   → config extraArgs → versionedArgs → caller extraArgs → prompt
+ *   (or nothing, when the prompt goes to stdin)
  *
  * This ordering handles Codex resume naturally:
  *   codex exec resume <id> [flags...] -- prompt
  * And suppresses cwdFlag on resume (session already has a cwd).
+ *
+ * Harnesses that only read files get a temp dir, created on first write
+ * and returned as spec.tempDir; it is removed again when a hook throws.
  */
-function buildFromConfig(config: HarnessConfig, options: BuildOptions): CommandSpec {
-  const argv: string[] = [config.binary];
-  const resuming = options.resume === true && !!options.sessionId;
+function buildFromConfig(config: HarnessConfig, options: BuildOptions): ExplainedCommand {
+  let tempDir: string | undefined;
+  const writeFile = (name: string, content: string): string => {
+    tempDir ??= mkdtempSync(path.join(tmpdir(), 'agent-cli-'));
+    const file = path.join(tempDir, name);
+    writeFileSync(file, content);
+    return file;
+  };
+  try {
+    const { spec, segments } = assembleCommand(config, options, writeFile);
+    return { spec: { ...spec, ...(tempDir ? { tempDir } : {}) }, segments };
+  } catch (err) {
+    if (tempDir) rmSync(tempDir, { recursive: true, force: true });
+    throw err;
+  }
+}
+
+function assembleCommand(
+  config: HarnessConfig,
+  options: BuildOptions,
+  writeFile: (name: string, content: string) => string
+): ExplainedCommand {
+  const argv: string[] = [];
+  const segments: CommandSegment[] = [];
+  const push = (step: BuildStep, args: readonly string[]): void => {
+    if (args.length === 0) return;
+    argv.push(...args);
+    segments.push({ step, args: [...args] });
+  };
+  const forking = !!options.forkFromSessionId && !!config.sessionForkFlags;
+  const resuming = !forking && options.resume === true && !!options.sessionId;
+  const { images, files } = splitAttachments(options.attachments ?? [], options.cwd);
+  let prompt = files.length > 0 ? inlineTextFiles(options.prompt ?? '', files) : options.prompt;
+
+  // Option hooks (permissions, dirs, system prompt, tools, MCP, images, output
+  // schema) hand back args, appended in place, plus env and inline config,
+  // merged at the end. Files they need go through writeFile.
+  let optionEnv: Record<string, string> = {};
+  let inlineConfig: Record<string, unknown> | undefined;
+  const apply = (step: BuildStep, delivery: OptionDelivery): void => {
+    if (delivery.args) push(step, delivery.args);
+    optionEnv = { ...optionEnv, ...delivery.env };
+    if (delivery.inlineConfig) inlineConfig = mergeConfig(inlineConfig ?? {}, delivery.inlineConfig);
+  };
+
+  push('binary', [config.binary]);
 
   // Subcommand (e.g. 'exec' for codex)
-  argv.push(...config.baseCmd);
+  push('baseCmd', config.baseCmd);
 
   // Session resume args go right after baseCmd.
   // For codex this produces: exec resume <id>
   // For claude this produces: --resume <id>
   if (resuming && config.sessionResumeFlags) {
-    argv.push(...config.sessionResumeFlags(options.sessionId!));
+    push('resume', config.sessionResumeFlags(options.sessionId!));
+  }
+
+  // Forks take the same place (they continue from the parent's history)
+  if (forking) {
+    push('fork', config.sessionForkFlags!(options.forkFromSessionId!));
+  }
+
+  // Permission level: 'full' (what bypassPermissions means) is bypassFlags,
+  // lower levels come from permissionArgs. Denied edits cap it at the
+  // harness's editDenialLevel.
+  let permissionLevel = options.permissionLevel ?? (options.bypassPermissions ? 'full' : undefined);
+  if (config.editDenialLevel && deniesCategory('edit', options.allowedTools, options.disallowedTools)
+    && (!permissionLevel || PERMISSION_LEVELS.indexOf(permissionLevel) > PERMISSION_LEVELS.indexOf(config.editDenialLevel))) {
+    permissionLevel = config.editDenialLevel;
+  }
+  if (permissionLevel === 'full') {
+    push('permissions', config.bypassFlags);
+  } else if (permissionLevel && config.permissionArgs) {
+    apply('permissions', config.permissionArgs(permissionLevel));
   }
 
-  // Permissions bypass
-  if (options.bypassPermissions) {
-    argv.push(...config.bypassFlags);
+  // Working directory via CLI flag (only on first turn, not resume or fork)
+  if (!resuming && !forking && config.cwdFlag && options.cwd) {
+    push('cwd', [config.cwdFlag, options.cwd]);
   }
 
-  // Working directory via CLI flag (only on first turn, not resume)
-  if (!resuming && config.cwdFlag && options.cwd) {
-    argv.push(config.cwdFlag, options.cwd);
+  // Additional directories, absolute so they do not depend on the process cwd
+  if (options.additionalDirs?.length && config.additionalDirArgs) {
+    apply('additionalDirs', config.additionalDirArgs(options.additionalDirs.map((dir) => path.resolve(options.cwd ?? '', dir))));
   }
 
   // Model flags
@@ -68,57 +190,154 @@ function buildFromConfig(config: HarnessConfig, options: BuildOptions): CommandS
   if (options.model) {
     if (config.decomposeModel) {
       const flags = config.decomposeModel(options.model);
-      argv.push(...flags);
+      push('model', flags);
       // If decomposition produced -c flags, reasoning is already handled
       modelHandledReasoning = flags.some(f => f.startsWith('model_reasoning_effort='));
     } else {
-      argv.push(config.modelFlag, options.model);
+      push('model', [config.modelFlag, options.model]);
     }
   }
 
   // Standalone reasoning parameter (oompa passes reasoning separately).
-  // Only applied if decomposeModel didn't already handle it.
-  if (options.reasoning && !modelHandledReasoning && config.reasoningFlags) {
-    argv.push(...config.reasoningFlags(options.reasoning));
+  // Only applied if decomposeModel didn't already handle it. Shared effort
+  // levels snap to the harness's own levels; some harnesses take it as env.
+  let reasoningEnv: Readonly<Record<string, string>> | undefined;
+  if (options.reasoning && !modelHandledReasoning) {
+    const level = normalizeReasoningEffort(config, options.reasoning);
+    if (config.reasoningFlags) push('reasoning', config.reasoningFlags(level));
+    reasoningEnv = config.reasoningEnv?.(level);
+    const reasoningConfig = config.reasoningConfig?.(level);
+    if (reasoningConfig) apply('reasoning', { inlineConfig: reasoningConfig });
+  }
+
+  if (options.maxTurns !== undefined && config.maxTurnsFlags) {
+    push('maxTurns', config.maxTurnsFlags(options.maxTurns));
+  }
+
+  // System prompt, tools, MCP servers and images
+  if ((options.systemPrompt || options.appendSystemPrompt) && config.systemPromptArgs) {
+    apply('systemPrompt', config.systemPromptArgs({
+      systemPrompt: options.systemPrompt,
+      appendSystemPrompt: options.appendSystemPrompt,
+      writeFile,
+    }));
+  }
+
+  if ((options.allowedTools?.length || options.disallowedTools?.length) && config.toolArgs) {
+    apply('tools', config.toolArgs({
+      allowedTools: options.allowedTools,
+      disallowedTools: options.disallowedTools,
+      writeFile,
+    }));
+  }
+
+  if (options.mcpServers && Object.keys(options.mcpServers).length > 0 && config.mcpArgs) {
+    apply('mcpServers', config.mcpArgs({ servers: options.mcpServers, writeFile }));
+  }
+
+  if (images.length > 0 && config.imageArgs) {
+    const delivery = config.imageArgs({ images, prompt: prompt ?? '', writeFile });
+    apply('images', delivery);
+    if (delivery.prompt !== undefined) prompt = delivery.prompt;
+  }
+
+  if (options.outputSchema && config.outputSchemaArgs) {
+    apply('outputSchema', config.outputSchemaArgs({ schema: options.outputSchema, writeFile }));
+  }
+
+  if (inlineConfig && config.inlineConfigEnv) {
+    optionEnv[config.inlineConfigEnv] = JSON.stringify(inlineConfig);
+  } else if (inlineConfig && config.settingsFileEnv) {
+    optionEnv[config.settingsFileEnv] = writeFile('settings.json', JSON.stringify(inlineConfig, null, 2));
   }
 
   // Session create flags (only when NOT resuming)
   if (!resuming && options.sessionId && config.sessionCreateFlags) {
-    argv.push(...config.sessionCreateFlags(options.sessionId));
+    push('sessionCreate', config.sessionCreateFlags(options.sessionId));
   }
 
   // Extra args from harness config
   if (config.extraArgs && config.extraArgs.length > 0) {
-    argv.push(...config.extraArgs);
+    push('configExtraArgs', config.extraArgs);
+  }
+
+  // Version-gated args (probes the CLI only when the config has any)
+  if (config.versionedArgs && config.versionedArgs.length > 0) {
+    const version = options.cliVersion ?? detectVersion(config.binary);
+    for (const gated of config.versionedArgs) {
+      if (versionInRange(version, gated)) push('versionedArgs', gated.args);
+    }
   }
 
   // Extra args from caller (project-specific flags)
   if (options.extraArgs && options.extraArgs.length > 0) {
-    argv.push(...options.extraArgs);
+    push('callerExtraArgs', options.extraArgs);
   }
 
   // Prompt delivery
   //
   // If the harness expects the prompt via stdin, we do NOT append it to argv.
   // The caller is responsible for writing spec.prompt to stdin after spawn.
-  if (options.prompt && config.stdin !== 'prompt') {
-    switch (config.promptVia) {
+  // Prompts too large for argv move to stdin (unless the caller keeps it
+  // open) or a file, per largePromptVia.
+  let stdin = config.stdin;
+  let promptVia = config.promptVia;
+  if (prompt && stdin !== 'prompt' && promptVia !== 'file' && Buffer.byteLength(prompt) > MAX_ARGV_PROMPT_BYTES) {
+    if (config.largePromptVia === 'stdin' && stdin === 'close') stdin = 'prompt';
+    else if (config.largePromptVia === 'file') promptVia = 'file';
+  }
+  if (prompt && stdin !== 'prompt') {
+    switch (promptVia) {
       case 'flag':
-        argv.push(config.promptFlag!, options.prompt);
+        push('prompt', [config.promptFlag!, prompt]);
         break;
       case 'cli-arg':
-        argv.push(options.prompt);
+        push('prompt', [prompt]);
         break;
       case 'cli-sep':
-        argv.push(config.promptSep!, options.prompt);
+        push('prompt', [config.promptSep!, prompt]);
+        break;
+      case 'file':
+        push('prompt', [config.promptFileFlag!, writeFile('prompt.md', prompt)]);
         break;
     }
   }
 
-  return {
+  // Environment: harness config (incl. profile) env, reasoning, option
+  // hooks, then caller overrides.
+  const merged = { ...config.env, ...reasoningEnv, ...optionEnv, ...options.env };
+  const env = Object.keys(merged).length > 0 ? merged : undefined;
+
+  const spec: CommandSpec = {
     argv,
-    stdin: config.stdin,
+    stdin,
     stdout: config.stdout,
-    prompt: options.prompt,
+    prompt,
+    ...(env ? { env } : {}),
   };
+  return { spec, segments };
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/** Deep-merge inline config fragments: nested objects merge, other values replace. */
+function mergeConfig(base: Record<string, unknown>, fragment: Readonly<Record<string, unknown>>): Record<string, unknown> {
+  const merged = { ...base };
+  for (const [key, value] of Object.entries(fragment)) {
+    const current = merged[key];
+    merged[key] = isPlainObject(current) && isPlainObject(value) ? mergeConfig(current, value) : value;
+  }
+  return merged;
+}
+
+/**
+ * Remove the temp files a CommandSpec refers to (spec.tempDir).
+ * Safe to call more than once, or on specs without temp files.
+ */
+export function cleanupCommandSpec(spec: CommandSpec): void {
+  if (spec.tempDir) {
+    rmSync(spec.tempDir, { recursive: true, force: true });
+  }
 }
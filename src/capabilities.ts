@@ -0,0 +1,166 @@
+import type { BuildIssue, BuildOptions, HarnessCapabilities, HarnessConfig, HarnessName } from './types';
+import { canonicalizeHarness, getHarness, listHarnesses } from './harnesses';
+import { isKnownModel } from './harnesses/models';
+import { splitAttachments } from './attachments';
+import { PERMISSION_LEVELS } from './permissions';
+import { deniesCategory } from './tools';
+
+/**
+ * Capabilities for configs that do not declare them (plugins, definitions):
+ * everything readable from the config fields is derived, the rest is off.
+ * A systemPromptArgs hook is assumed to handle both replace and append,
+ * and a permissionArgs hook every permission level below 'full'.
+ */
+export function deriveCapabilities(config: HarnessConfig): HarnessCapabilities {
+  return {
+    resume: !!config.sessionResumeFlags,
+    sessionCreate: !!config.sessionCreateFlags,
+    fork: !!config.sessionForkFlags,
+    reasoning: !!(config.reasoningFlags || config.reasoningEnv || config.reasoningConfig),
+    maxTurns: !!config.maxTurnsFlags,
+    bypass: config.bypassFlags.length > 0,
+    permissionLevels: PERMISSION_LEVELS.filter((level) =>
+      (level === 'full' ? config.bypassFlags.length > 0 : !!config.permissionArgs)),
+    cwdFlag: !!config.cwdFlag,
+    additionalDirs: !!config.additionalDirArgs,
+    images: !!config.imageArgs,
+    systemPrompt: !!config.systemPromptArgs,
+    appendSystemPrompt: !!config.systemPromptArgs,
+    toolFilter: !!config.toolArgs,
+    mcp: !!config.mcpArgs,
+    outputSchema: !!config.outputSchemaArgs,
+    streaming: config.stdout === 'jsonl',
+  };
+}
+
+/** Capabilities of a harness (declared, or derived from its config). Throws on unknown harness. */
+export function getHarnessCapabilities(harness: HarnessName | string): HarnessCapabilities {
+  const config = getHarness(harness);
+  return config.capabilities ?? deriveCapabilities(config);
+}
+
+/** Capability matrix for every known harness, keyed by name. */
+export function capabilityMatrix(): Record<string, HarnessCapabilities> {
+  return Object.fromEntries(listHarnesses().map((name) => [name, getHarnessCapabilities(name)]));
+}
+
+/**
+ * Report the options a harness cannot honor as given.
+ *
+ * Errors change what the command does (a resume that would start a fresh
+ * session, an image the CLI never sees); warnings are options buildCommand
+ * would drop from argv; info
+ * flags values passed through unchecked (a model missing from the catalog).
+ * Returns an empty array when everything is supported.
+ */
+export function validateBuildOptions(harness: HarnessName | string, options: BuildOptions): BuildIssue[] {
+  const caps = getHarnessCapabilities(harness);
+  const issues: BuildIssue[] = [];
+  const forking = !!options.forkFromSessionId;
+  const resuming = !forking && options.resume === true && !!options.sessionId;
+
+  if (forking && !caps.fork) {
+    issues.push({ severity: 'error', option: 'forkFromSessionId', message: `${harness} cannot fork sessions` });
+  }
+  if (!forking && options.resume && !options.sessionId) {
+    issues.push({ severity: 'warning', option: 'resume', message: 'resume needs a sessionId; starting a new session' });
+  }
+  if (resuming && !caps.resume) {
+    issues.push({ severity: 'error', option: 'resume', message: `${harness} cannot resume sessions` });
+  } else if (resuming && caps.resumeIdPrefix && !options.sessionId!.startsWith(caps.resumeIdPrefix)) {
+    issues.push({
+      severity: 'error',
+      option: 'sessionId',
+      message: `${harness} only resumes session IDs starting with "${caps.resumeIdPrefix}" (got "${options.sessionId}")`,
+    });
+  }
+  if (!resuming && options.sessionId && !caps.sessionCreate) {
+    issues.push({
+      severity: 'warning',
+      option: 'sessionId',
+      message: `${harness} assigns its own session IDs; sessionId is ignored on the first turn`,
+    });
+  }
+  if (options.reasoning && !caps.reasoning) {
+    issues.push({ severity: 'warning', option: 'reasoning', message: `${harness} has no reasoning effort control` });
+  }
+  if (options.maxTurns !== undefined && !caps.maxTurns) {
+    issues.push({
+      severity: 'warning',
+      option: 'maxTurns',
+      message: `${harness} has no turn limit flag; only executeCommand enforces maxTurns (as a tool-use budget)`,
+    });
+  }
+  if (options.systemPrompt && !caps.systemPrompt) {
+    issues.push({ severity: 'warning', option: 'systemPrompt', message: `${harness} cannot replace its system prompt` });
+  }
+  if (options.appendSystemPrompt && !caps.appendSystemPrompt) {
+    issues.push({
+      severity: 'warning',
+      option: 'appendSystemPrompt',
+      message: `${harness} cannot append to its system prompt`,
+    });
+  }
+  for (const option of ['allowedTools', 'disallowedTools'] as const) {
+    if (options[option]?.length && !caps.toolFilter) {
+      issues.push({ severity: 'warning', option, message: `${harness} cannot restrict its tools (${option})` });
+    }
+  }
+  if (options.mcpServers && Object.keys(options.mcpServers).length > 0 && !caps.mcp) {
+    issues.push({ severity: 'warning', option: 'mcpServers', message: `${harness} cannot take per-run MCP servers` });
+  }
+  if (options.outputSchema && !caps.outputSchema) {
+    issues.push({ severity: 'warning', option: 'outputSchema', message: `${harness} has no native output schema flag` });
+  }
+  const images = splitAttachments(options.attachments ?? [], options.cwd).images;
+  if (images.length > 0 && !caps.images) {
+    issues.push({
+      severity: 'error',
+      option: 'attachments',
+      message: `${harness} cannot take image attachments (${images.map((image) => image.path).join(', ')})`,
+    });
+  }
+  if (options.permissionLevel && !caps.permissionLevels.includes(options.permissionLevel)) {
+    issues.push({
+      severity: 'warning',
+      option: 'permissionLevel',
+      message: `${harness} has no ${options.permissionLevel} permission level`,
+    });
+  } else if (!options.permissionLevel && options.bypassPermissions && !caps.bypass) {
+    issues.push({ severity: 'warning', option: 'bypassPermissions', message: `${harness} has no permission bypass flag` });
+  }
+  const level = options.permissionLevel ?? (options.bypassPermissions ? 'full' : undefined);
+  const { editDenialLevel } = getHarness(harness);
+  if (level && editDenialLevel && deniesCategory('edit', options.allowedTools, options.disallowedTools)
+    && PERMISSION_LEVELS.indexOf(level) > PERMISSION_LEVELS.indexOf(editDenialLevel)) {
+    issues.push({
+      severity: 'warning',
+      option: options.permissionLevel ? 'permissionLevel' : 'bypassPermissions',
+      message: `${harness} runs at ${editDenialLevel} instead of ${level} while edits are denied`,
+    });
+  }
+  if (options.additionalDirs?.length && !caps.additionalDirs) {
+    issues.push({
+      severity: 'warning',
+      option: 'additionalDirs',
+      message: `${harness} cannot use directories outside its working directory`,
+    });
+  }
+  if (!resuming && options.cwd && !caps.cwdFlag) {
+    issues.push({
+      severity: 'warning',
+      option: 'cwd',
+      message: `${harness} has no working directory flag; spawn the process in ${options.cwd} instead`,
+    });
+  }
+
+  if (options.model && !isKnownModel(canonicalizeHarness(harness), options.model)) {
+    issues.push({
+      severity: 'info',
+      option: 'model',
+      message: `${options.model} is not in the ${harness} model catalog; passing it through`,
+    });
+  }
+
+  return issues;
+}
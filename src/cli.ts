@@ -1,34 +1,113 @@
 #!/usr/bin/env node
 
 import { readFileSync } from 'node:fs';
-import { buildCommand } from './build';
-import { executeCommand, type ExecuteCommandRequest, type CodexReasoningLevel } from './run';
-import { listHarnesses, getHarness, canonicalizeHarness } from './harnesses';
+import path from 'node:path';
+import { buildCommand, explainCommand } from './build';
+import { parseCommand } from './parse';
+import { executeCommand, type ExecuteCommandRequest } from './run';
+import { listHarnesses, getHarness, canonicalizeHarness, registerHarness } from './harnesses';
+import { loadHarnessDefinitions } from './harnesses/definitions';
+import { getHarnessProfile, listProfiles, loadProfiles } from './harnesses/profiles';
+import { getModelCatalog, isKnownModel, listModelCatalogs, loadModelCatalog } from './harnesses/models';
 import { resolveBinary } from './resolve';
-import type { BuildOptions, HarnessName } from './types';
+import { capabilityMatrix, getHarnessCapabilities } from './capabilities';
+import { detectVersion, versionInRange } from './version';
+import { PERMISSION_LEVELS, isPermissionLevel } from './permissions';
+import { renderExplanation, renderShellCommand, shellQuote } from './shell';
+import type { BuildOptions, HarnessName, PermissionLevel, ReasoningEffort } from './types';
 
 const USAGE = `agent-cli — Shared CLI agent invocation tool
 
 Usage:
   agent-cli run --harness <name> [options]      Run an agent CLI (primary interface)
-  agent-cli build --harness <name> [options]    Build a command (JSON to stdout, for debugging)
-  agent-cli check <harness>                     Check if a harness binary is available
-  agent-cli list                                List available harnesses
+  agent-cli build --harness <name> [options]    Build a command (JSON, shell line or explanation, for debugging)
+  agent-cli check <harness>                     Check if a harness binary is available (and its version)
+  agent-cli list                                List available harnesses and profiles
   agent-cli info <harness>                      Show harness details
+  agent-cli capabilities [harness]              Show what each harness supports (JSON matrix)
+  agent-cli models [harness]                    List known models, aliases and effort levels
+  agent-cli normalize [--format shell|json] -- <command...>
+                                                Rewrite an existing harness command line in canonical
+                                                flag order (json: the parsed harness and BuildOptions)
 
 Options:
-  --harness <name>         Agent CLI to invoke (claude, codex, opencode, gemini, gemini1, gemini2, gemini3)
-  --model <id>             Model identifier (harness-specific)
+  --harness <name>         Agent CLI to invoke (claude, codex, opencode, gemini, qwen, aider, cursor-agent,
+                           gemini1, gemini2, gemini3, a profile like claude@work,
+                           or any harness registered by a plugin)
+  --model <id>             Model identifier (harness-specific) or catalog alias (best, fast)
   --prompt <text>          Prompt text
   --session <id>           Session ID (for create or resume)
   --resume                 Resume an existing session (vs create new)
+  --fork <id>              Start a new session branched off session <id> (harnesses that
+                           cannot fork fail)
   --cwd <path>             Working directory for the agent process
-  --bypass-permissions     Include permissions bypass flags
+  --add-dirs <paths>       Comma-separated directories outside --cwd the agent may use
+  --bypass-permissions     Include permissions bypass flags (same as --permission-level full)
+  --permission-level <lvl> read-only, plan, workspace-write or full (mapped to each harness's
+                           sandbox/approval/permission modes)
   --debug-events           Mirror raw provider stdout/stderr to stderr during run
-  --reasoning <level>      Reasoning effort level (codex only: medium, high, xhigh, etc.)
+  --minimal-env            Start the agent from a minimal environment (PATH, HOME, locale, ...)
+                           instead of inheriting everything (run only)
+  --reasoning <level>      Reasoning effort: minimal, low, medium, high, xhigh, max (mapped to
+                           each harness's control; harnesses without one report a warning)
+  --max-turns <n>          Cap on agentic turns (native flag where the harness has one; run
+                           counts tool calls elsewhere and stops the agent past the cap)
+  --max-steps <n>          Cap on tool calls, enforced on every harness (run only)
+  --timeout <ms>           Stop the agent once the turn has run this long (run only)
+  --idle-timeout <ms>      Stop the agent after this long without output (run only)
+  --system-prompt <text>   Replace the harness's system prompt (some harnesses read it from a
+                           temp file; build leaves it in the spec's tempDir)
+  --append-system-prompt <text>
+                           Append instructions to the harness's default system prompt
+  --allowed-tools <list>   Comma-separated tools the agent may use: shell, edit, read, web,
+                           mcp:<server>, or harness-native names
+  --disallowed-tools <list>
+                           Comma-separated tools to take away from the agent
+  --mcp-servers <json>     MCP servers for this run: { "<name>": { command, args?, env? } or
+                           { url, headers? } }, wired into each harness's own config
+  --attach <paths>         Comma-separated files to send with the prompt: images (png, jpg,
+                           gif, webp) go to the harness, other files are inlined as text
+  --output-schema <json>   JSON Schema for the final answer (native flag on codex and claude;
+                           run asks for JSON in the prompt elsewhere and validates the answer)
+  --cli-version <x.y.z>    Installed CLI version to build flags for (default: probe <binary> --version)
   --resolve                Resolve binary in argv[0] to absolute path (build only)
+  --format <fmt>           build output: json (CommandSpec, default), shell (quoted command line
+                           with env, cwd and stdin) or explain (argv annotated by build step)
+  --strict                 Fail on options the harness cannot honor instead of dropping them (build only)
   --input <json|->         JSON input (inline or stdin). Shape: { harness, model?, prompt?, ... }
-  --extra <args...>        Extra args appended after all generated args (must be last)`;
+  --extra <args...>        Extra args appended after all generated args (must be last)
+
+Environment:
+  AGENT_CLI_PLUGINS        Comma-separated modules to load before running. Each module
+                           registers harnesses (via registerHarness or an exported
+                           register({ registerHarness }) function).
+  AGENT_CLI_HARNESSES      JSON file of harness definitions to add or override
+                           (default: ~/.config/agent-cli/harnesses.json, if present).
+  AGENT_CLI_PROFILES       JSON file of harness profiles ("claude@work": { binary?, env?,
+                           model?, extraArgs? }) (default: ~/.config/agent-cli/profiles.json).
+  AGENT_CLI_MODELS         JSON file of model catalog entries per harness ("codex": [{ id,
+                           aliases?, efforts?, standalone? }]) merged over the built-in
+                           catalog (default: ~/.config/agent-cli/models.json, if present).`;
+
+interface HarnessPlugin {
+  register?: (api: { registerHarness: typeof registerHarness }) => void;
+}
+
+/**
+ * Load harness plugins listed in AGENT_CLI_PLUGINS so that `run`, `build`,
+ * `list` and `info` see harnesses registered outside this package.
+ * Relative paths resolve against the current working directory.
+ */
+function loadPlugins(): void {
+  const raw = process.env.AGENT_CLI_PLUGINS;
+  if (!raw) return;
+
+  for (const entry of raw.split(',').map((part) => part.trim()).filter(Boolean)) {
+    const specifier = entry.startsWith('.') ? path.resolve(entry) : entry;
+    const plugin = require(specifier) as HarnessPlugin;
+    plugin.register?.({ registerHarness });
+  }
+}
 
 function parseArgs(args: string[]): Record<string, string | boolean | string[]> {
   const result: Record<string, string | boolean | string[]> = {};
@@ -57,6 +136,57 @@ function parseArgs(args: string[]): Record<string, string | boolean | string[]>
   return result;
 }
 
+/** Split a comma-separated flag value (`--allowed-tools read,web`). */
+function parseList(value: string | boolean | string[] | undefined): string[] | undefined {
+  if (typeof value !== 'string') return undefined;
+  return value.split(',').map((item) => item.trim()).filter(Boolean);
+}
+
+/** Validate --permission-level; exits with a usage error on unknown levels. */
+function parsePermissionLevel(value: string | boolean | string[] | undefined): PermissionLevel | undefined {
+  if (value === undefined) return undefined;
+  if (typeof value !== 'string' || !isPermissionLevel(value)) {
+    console.error(`Error: --permission-level must be one of ${PERMISSION_LEVELS.join(', ')}\n`);
+    process.exit(1);
+  }
+  return value;
+}
+
+/** Output formats of `agent-cli build`. */
+const BUILD_FORMATS = ['json', 'shell', 'explain'] as const;
+type BuildFormat = typeof BUILD_FORMATS[number];
+
+/** Validate --format; exits with a usage error on unknown formats. */
+function parseBuildFormat(value: string | boolean | string[] | undefined): BuildFormat {
+  if (value === undefined) return 'json';
+  if (typeof value !== 'string' || !BUILD_FORMATS.includes(value as BuildFormat)) {
+    console.error(`Error: --format must be one of ${BUILD_FORMATS.join(', ')}\n`);
+    process.exit(1);
+  }
+  return value as BuildFormat;
+}
+
+/** Parse a flag that takes a positive integer; exits with a usage error otherwise. */
+function parseCount(value: string | boolean | string[] | undefined, flag: string): number | undefined {
+  if (value === undefined) return undefined;
+  if (typeof value !== 'string' || !/^[1-9]\d*$/.test(value)) {
+    console.error(`Error: ${flag} expects a positive integer\n`);
+    process.exit(1);
+  }
+  return Number(value);
+}
+
+/** Parse a flag that takes a JSON value; exits with a usage error on bad JSON. */
+function parseJsonFlag<T>(value: string | boolean | string[] | undefined, flag: string): T | undefined {
+  if (typeof value !== 'string') return undefined;
+  try {
+    return JSON.parse(value) as T;
+  } catch (err) {
+    console.error(`Error: ${flag} expects JSON (${err instanceof Error ? err.message : String(err)})\n`);
+    process.exit(1);
+  }
+}
+
 /**
  * Parse build options from CLI flags or JSON input.
  *
@@ -66,8 +196,11 @@ function parseArgs(args: string[]): Record<string, string | boolean | string[]>
  *
  * JSON shape matches BuildOptions + { harness: string } at top level.
  */
-function parseBuildOptions(rest: string[]): { harness: string; options: BuildOptions; resolve: boolean } {
+function parseBuildOptions(
+  rest: string[]
+): { harness: string; options: BuildOptions; resolve: boolean; format: BuildFormat } {
   const opts = parseArgs(rest);
+  const format = parseBuildFormat(opts.format);
 
   // JSON input mode: --input '{"harness":...}' or --input - (stdin)
   if (opts.input !== undefined) {
@@ -89,12 +222,27 @@ function parseBuildOptions(rest: string[]): { harness: string; options: BuildOpt
         prompt: json.prompt,
         sessionId: json.sessionId,
         resume: json.resume === true,
+        forkFromSessionId: json.forkFromSessionId,
         cwd: json.cwd,
+        additionalDirs: json.additionalDirs,
         bypassPermissions: json.bypassPermissions === true,
+        permissionLevel: json.permissionLevel,
         reasoning: json.reasoning,
+        maxTurns: json.maxTurns,
+        systemPrompt: json.systemPrompt,
+        appendSystemPrompt: json.appendSystemPrompt,
+        allowedTools: json.allowedTools,
+        disallowedTools: json.disallowedTools,
+        mcpServers: json.mcpServers,
+        attachments: json.attachments,
+        outputSchema: json.outputSchema,
         extraArgs: json.extraArgs,
+        env: json.env,
+        cliVersion: json.cliVersion,
+        strict: json.strict === true || opts.strict === true,
       },
       resolve: opts.resolve === true,
+      format,
     };
   }
 
@@ -112,12 +260,26 @@ function parseBuildOptions(rest: string[]): { harness: string; options: BuildOpt
       prompt: opts.prompt as string | undefined,
       sessionId: opts.session as string | undefined,
       resume: opts.resume === true,
+      forkFromSessionId: opts.fork as string | undefined,
       cwd: opts.cwd as string | undefined,
+      additionalDirs: parseList(opts['add-dirs']),
       bypassPermissions: opts['bypass-permissions'] === true,
+      permissionLevel: parsePermissionLevel(opts['permission-level']),
       reasoning: opts.reasoning as string | undefined,
+      maxTurns: parseCount(opts['max-turns'], '--max-turns'),
+      systemPrompt: opts['system-prompt'] as string | undefined,
+      appendSystemPrompt: opts['append-system-prompt'] as string | undefined,
+      allowedTools: parseList(opts['allowed-tools']),
+      disallowedTools: parseList(opts['disallowed-tools']),
+      mcpServers: parseJsonFlag(opts['mcp-servers'], '--mcp-servers'),
+      attachments: parseList(opts.attach),
+      outputSchema: parseJsonFlag(opts['output-schema'], '--output-schema'),
       extraArgs: opts.extra as string[] | undefined,
+      cliVersion: opts['cli-version'] as string | undefined,
+      strict: opts.strict === true,
     },
     resolve: opts.resolve === true,
+    format,
   };
 }
 
@@ -130,7 +292,11 @@ function parseRunRequest(rest: string[]): ExecuteCommandRequest {
       ? readFileSync(0, 'utf-8')
       : opts.input as string;
     const parsed = JSON.parse(raw) as ExecuteCommandRequest;
-    return debugRawEvents ? { ...parsed, debugRawEvents: true } : parsed;
+    return {
+      ...parsed,
+      ...(debugRawEvents ? { debugRawEvents: true } : {}),
+      ...(opts['minimal-env'] === true ? { minimalEnv: true } : {}),
+    };
   }
 
   const harness = opts.harness as string | undefined;
@@ -149,22 +315,42 @@ function parseRunRequest(rest: string[]): ExecuteCommandRequest {
     model: opts.model as string | undefined,
     extraArgs: opts.extra as string[] | undefined,
     yolo: opts['bypass-permissions'] === true,
+    ...(opts['add-dirs'] ? { additionalDirs: parseList(opts['add-dirs']) } : {}),
+    ...(opts['permission-level'] ? { permissionLevel: parsePermissionLevel(opts['permission-level']) } : {}),
     ...(debugRawEvents ? { debugRawEvents: true } : {}),
+    ...(opts['minimal-env'] === true ? { minimalEnv: true } : {}),
+    ...(opts['cli-version'] ? { cliVersion: opts['cli-version'] as string } : {}),
+    ...(opts.reasoning ? { reasoningEffort: opts.reasoning as ReasoningEffort } : {}),
+    ...(opts['max-turns'] ? { maxTurns: parseCount(opts['max-turns'], '--max-turns') } : {}),
+    ...(opts['max-steps'] ? { maxSteps: parseCount(opts['max-steps'], '--max-steps') } : {}),
+    ...(opts.timeout ? { timeoutMs: parseCount(opts.timeout, '--timeout') } : {}),
+    ...(opts['idle-timeout'] ? { idleTimeoutMs: parseCount(opts['idle-timeout'], '--idle-timeout') } : {}),
+    ...(opts['system-prompt'] ? { systemPrompt: opts['system-prompt'] as string } : {}),
+    ...(opts['append-system-prompt'] ? { appendSystemPrompt: opts['append-system-prompt'] as string } : {}),
+    ...(opts['allowed-tools'] ? { allowedTools: parseList(opts['allowed-tools']) } : {}),
+    ...(opts['disallowed-tools'] ? { disallowedTools: parseList(opts['disallowed-tools']) } : {}),
+    ...(opts['mcp-servers'] ? { mcpServers: parseJsonFlag(opts['mcp-servers'], '--mcp-servers') } : {}),
+    ...(opts.attach ? { attachments: parseList(opts.attach) } : {}),
+    ...(opts['output-schema'] ? { outputSchema: parseJsonFlag(opts['output-schema'], '--output-schema') } : {}),
     ...(opts.session ? { sessionId: opts.session as string } : {}),
     ...(opts.resume && opts.session ? { resumeSessionId: opts.session as string } : {}),
+    ...(opts.fork ? { forkFromSessionId: opts.fork as string } : {}),
   };
 
-  if (canonicalizeHarness(harnessName) === 'codex') {
-    return {
-      ...base,
-      harness: 'codex',
-      ...(opts.reasoning ? { reasoningEffort: opts.reasoning as CodexReasoningLevel } : {}),
-    };
-  }
-
   return base as ExecuteCommandRequest;
 }
 
+/** Warn on stderr when a model is missing from the harness's catalog (it is still passed through). */
+function warnUnknownModel(harness: string, model: string | undefined): void {
+  const canonical = canonicalizeHarness(harness);
+  if (model && !isKnownModel(canonical, model)) {
+    console.error(`agent-cli: warning: model "${model}" is not in the ${canonical} catalog (see: agent-cli models ${canonical})`);
+  }
+}
+
+/** How long `run` gives the agent after each signal when it is interrupted. */
+const RUN_STOP_GRACE_MS = 5_000;
+
 function exitCodeForReason(reason: string, childExitCode: number | null): number {
   switch (reason) {
     case 'success':
@@ -175,6 +361,12 @@ function exitCodeForReason(reason: string, childExitCode: number | null): number
       return 3;
     case 'killed':
       return 130;
+    case 'max_turns':
+      return 4;
+    case 'invalid_output':
+      return 5;
+    case 'timeout':
+      return 124;
     default:
       return childExitCode ?? 1;
   }
@@ -188,29 +380,65 @@ async function main(): Promise<void> {
     process.exit(command ? 0 : 1);
   }
 
+  loadPlugins();
+  loadHarnessDefinitions();
+  loadProfiles();
+  loadModelCatalog();
+
   switch (command) {
     case 'run': {
       const request = parseRunRequest(rest);
-      const handle = executeCommand(request);
+      warnUnknownModel(request.harness, request.model);
+      // Detached, so stopping the agent reaches the tools it started too;
+      // ref'd again, since the CLI lives exactly as long as the agent.
+      const handle = executeCommand({ ...request, detached: true });
+      handle.child.ref();
+      // Ctrl-C / SIGTERM / SIGHUP stop the agent gracefully (a second one
+      // kills it); the turn still ends with turn.complete reason killed.
+      const stops: Array<Promise<void>> = [];
+      const forwardSignal = (): void => {
+        stops.push(handle.stop(stops.length > 0 ? 'SIGKILL' : { graceMs: RUN_STOP_GRACE_MS }));
+      };
+      process.on('SIGINT', forwardSignal);
+      process.on('SIGTERM', forwardSignal);
+      process.on('SIGHUP', forwardSignal);
       for await (const event of handle.events) {
         process.stdout.write(`${JSON.stringify(event)}\n`);
       }
 
       const completion = await handle.completed;
+      // The agent may exit while tools in its group still ignore the last
+      // signal: finish the escalation before exiting (its timers are unref'd).
+      const hold = setInterval(() => {}, RUN_STOP_GRACE_MS);
+      await Promise.all(stops);
+      clearInterval(hold);
       process.exit(exitCodeForReason(completion.reason, completion.exitCode));
       break;
     }
 
     case 'build': {
-      const { harness, options, resolve } = parseBuildOptions(rest);
-      const spec = buildCommand(harness, options);
+      const { harness, options, resolve, format } = parseBuildOptions(rest);
+      warnUnknownModel(harness, options.model);
+      const explained = explainCommand(harness, options);
+      const { spec } = explained;
 
       // --resolve: replace bare binary name with absolute path
       if (resolve && spec.argv.length > 0) {
         spec.argv[0] = resolveBinary(spec.argv[0]);
       }
 
-      console.log(JSON.stringify(spec));
+      switch (format) {
+        case 'shell':
+          console.log(renderShellCommand(spec, { cwd: options.cwd }));
+          break;
+        case 'explain': {
+          const [binary, ...segments] = explained.segments;
+          console.log(renderExplanation({ spec, segments: [{ ...binary, args: [spec.argv[0]] }, ...segments] }));
+          break;
+        }
+        default:
+          console.log(JSON.stringify(spec));
+      }
       break;
     }
 
@@ -221,17 +449,23 @@ async function main(): Promise<void> {
         process.exit(1);
       }
       const config = getHarness(name);
+      const supportedVersions = config.supportedVersions ?? null;
       try {
         const path = resolveBinary(config.binary);
-        console.log(JSON.stringify({ available: true, binary: config.binary, path }));
+        const version = detectVersion(config.binary);
+        // null when the version is unknown or no range is declared
+        const supported = version && supportedVersions ? versionInRange(version, supportedVersions) : null;
+        console.log(JSON.stringify({ available: true, binary: config.binary, path, version, supportedVersions, supported }));
       } catch {
-        console.log(JSON.stringify({ available: false, binary: config.binary, path: null }));
+        console.log(JSON.stringify({
+          available: false, binary: config.binary, path: null, version: null, supportedVersions, supported: null,
+        }));
       }
       break;
     }
 
     case 'list': {
-      console.log(JSON.stringify(listHarnesses()));
+      console.log(JSON.stringify([...listHarnesses(), ...listProfiles()]));
       break;
     }
 
@@ -250,10 +484,52 @@ async function main(): Promise<void> {
         stdin: config.stdin,
         cwdFlag: config.cwdFlag ?? null,
         bypassFlags: config.bypassFlags,
+        profile: getHarnessProfile(name) ?? null,
+        capabilities: getHarnessCapabilities(name),
       }, null, 2));
       break;
     }
 
+    case 'normalize': {
+      const sep = rest.indexOf('--');
+      const command = sep >= 0 ? rest.slice(sep + 1) : rest;
+      const opts = parseArgs(sep >= 0 ? rest.slice(0, sep) : []);
+      if (command.length === 0) {
+        console.error('Error: normalize needs a command (agent-cli normalize -- codex exec ...)');
+        process.exit(1);
+      }
+      const parsed = parseCommand(command);
+      if (opts.format === 'json') {
+        console.log(JSON.stringify(parsed));
+        break;
+      }
+      const cliVersion = opts['cli-version'] as string | undefined;
+      const spec = buildCommand(parsed.harness, { ...parsed.options, ...(cliVersion ? { cliVersion } : {}) });
+      console.log(spec.argv.map(shellQuote).join(' '));
+      break;
+    }
+
+    case 'models': {
+      const name = rest[0];
+      if (name) {
+        console.log(JSON.stringify(getModelCatalog(canonicalizeHarness(name)), null, 2));
+      } else {
+        console.log(JSON.stringify(
+          Object.fromEntries(listModelCatalogs().map((harness) => [harness, getModelCatalog(harness)])),
+          null,
+          2
+        ));
+      }
+      break;
+    }
+
+    case 'capabilities': {
+      const name = rest[0];
+      const matrix = name ? { [name]: getHarnessCapabilities(name) } : capabilityMatrix();
+      console.log(JSON.stringify(matrix, null, 2));
+      break;
+    }
+
     default: {
       console.error(`Unknown command: ${command}\n`);
       console.error(USAGE);
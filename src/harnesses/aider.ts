@@ -0,0 +1,72 @@
+import type { HarnessConfig } from '../types';
+
+/**
+ * Aider CLI harness config.
+ *
+ * Prompt delivery:
+ *   --message "<prompt>" runs a single instruction and exits; prompts too
+ *   large for argv go through --message-file <temp file>.
+ *
+ * Session management:
+ *   None. Aider has no session IDs; chat history lives in
+ *   .aider.chat.history.md in the repo, so resume/create flags are omitted.
+ *
+ * Output:
+ *   Plain text (no JSON stream). executeCommand feeds stdout lines to a
+ *   text parser that recognizes edits, commits, and errors.
+ *
+ * Working directory:
+ *   No flag — aider works on the repo containing the process cwd.
+ *
+ * Permissions:
+ *   No sandbox. read-only and plan run with --dry-run (no files written),
+ *   workspace-write adds no flags (aider applies its edits without asking),
+ *   full answers yes to every confirmation.
+ *
+ * System prompt:
+ *   Not replaceable. Appended instructions are written to a file and added
+ *   read-only with --read, the usual way to give aider conventions.
+ */
+export const aiderConfig: HarnessConfig = {
+  binary: 'aider',
+  baseCmd: [],
+  // --yes-always: answer yes to every confirmation (file creation, shell cmds).
+  bypassFlags: ['--yes-always'],
+  modelFlag: '--model',
+  promptVia: 'flag',
+  promptFlag: '--message',
+  promptFileFlag: '--message-file',
+  largePromptVia: 'file',
+  stdin: 'close',
+  stdout: 'text',
+  // Skip the network update check and release notes banner on every run.
+  extraArgs: ['--no-check-update', '--no-show-release-notes'],
+  // OpenAI-style effort; minimal snaps to low, xhigh/max to high.
+  reasoningFlags: (level) => ['--reasoning-effort', level],
+  reasoningLevels: ['low', 'medium', 'high'],
+  permissionArgs: (level) => ({
+    args: { 'read-only': ['--dry-run'], plan: ['--dry-run'], 'workspace-write': [] }[level],
+  }),
+  systemPromptArgs: ({ appendSystemPrompt, writeFile }) => ({
+    args: appendSystemPrompt ? ['--read', writeFile('conventions.md', appendSystemPrompt)] : [],
+  }),
+
+  capabilities: {
+    resume: false,
+    sessionCreate: false,
+    fork: false,
+    reasoning: true,
+    maxTurns: false,
+    bypass: true,
+    permissionLevels: ['read-only', 'plan', 'workspace-write', 'full'],
+    cwdFlag: false,
+    additionalDirs: false,
+    images: false,
+    systemPrompt: false,
+    appendSystemPrompt: true,
+    toolFilter: false,
+    mcp: false,
+    outputSchema: false,
+    streaming: false,
+  },
+};
@@ -1,4 +1,6 @@
-import type { HarnessConfig } from '../types';
+import { readFileSync } from 'node:fs';
+import type { HarnessConfig, PermissionLevel, ReasoningEffort } from '../types';
+import { mapToolNames, type ToolVocabulary } from '../tools';
 
 /**
  * Claude CLI harness config.
@@ -6,13 +8,75 @@ import type { HarnessConfig } from '../types';
  * Session management:
  *   Create: --session-id <uuid>
  *   Resume: --resume <uuid>
+ *   Fork:   --resume <uuid> --fork-session (plus --session-id for a chosen ID)
  *
  * IMPORTANT: --resume takes the session ID as its VALUE.
  * Combining --session-id <id> --resume is REJECTED by Claude CLI
  * (unless --fork-session is also passed). This was a real bug in
  * oompa_loompas that wasted half of all swarm iterations — and is
  * the reason this shared tool exists.
+ *
+ * Permissions:
+ *   --permission-mode default (headless: anything needing approval is
+ *   refused, so read-only), plan, acceptEdits; full skips all checks.
+ *
+ * Additional directories:
+ *   --add-dir <path> per directory (repeated: the flag is variadic).
+ *
+ * System prompt:
+ *   --system-prompt <text> replaces it; --append-system-prompt <text> appends.
+ *
+ * Tools:
+ *   --allowedTools / --disallowedTools take comma-joined tool names
+ *   (mcp__<server> for MCP servers). Allowed tools only skip permission
+ *   prompts, so an allowlist also narrows the built-in set with --tools.
+ *
+ * MCP servers:
+ *   --mcp-config <file> with a temp { mcpServers } JSON file.
+ *
+ * Images:
+ *   Sent as base64 content blocks in a stream-json user message on stdin
+ *   (--input-format stream-json, which needs --output-format stream-json).
+ *
+ * Turn limit:
+ *   --max-turns <n>; reaching it ends with a result of subtype error_max_turns.
+ *
+ * Structured output:
+ *   --json-schema <schema JSON>; the result event carries structured_output.
+ *
+ * Reasoning:
+ *   No effort flag; the thinking budget comes from MAX_THINKING_TOKENS.
+ *   Shared effort levels map to budgets below; a numeric level is used
+ *   as the budget directly.
  */
+
+/** Thinking budget (tokens) per shared effort level. */
+const THINKING_BUDGETS: Readonly<Record<ReasoningEffort, string>> = {
+  minimal: '1024',
+  low: '4000',
+  medium: '10000',
+  high: '31999',
+  xhigh: '48000',
+  max: '63999',
+};
+
+/** --permission-mode per level below full (full is --dangerously-skip-permissions). */
+const PERMISSION_MODES: Readonly<Record<Exclude<PermissionLevel, 'full'>, string>> = {
+  'read-only': 'default',
+  plan: 'plan',
+  'workspace-write': 'acceptEdits',
+};
+
+const TOOLS: ToolVocabulary = {
+  categories: {
+    shell: ['Bash', 'BashOutput', 'KillShell'],
+    edit: ['Edit', 'MultiEdit', 'Write', 'NotebookEdit'],
+    read: ['Read', 'Glob', 'Grep', 'LS'],
+    web: ['WebFetch', 'WebSearch'],
+  },
+  mcp: (server) => `mcp__${server}`,
+};
+
 export const claudeConfig: HarnessConfig = {
   binary: 'claude',
   baseCmd: [],
@@ -22,6 +86,85 @@ export const claudeConfig: HarnessConfig = {
   promptFlag: '-p',
   stdin: 'prompt',
   stdout: 'jsonl',
+  supportedVersions: { min: '1.0.0' },
   sessionCreateFlags: (id) => ['--session-id', id],
   sessionResumeFlags: (id) => ['--resume', id],
+  sessionForkFlags: (id) => ['--resume', id, '--fork-session'],
+
+  permissionArgs: (level) => ({ args: ['--permission-mode', PERMISSION_MODES[level]] }),
+
+  additionalDirArgs: (dirs) => ({ args: dirs.flatMap((dir) => ['--add-dir', dir]) }),
+
+  systemPromptArgs: ({ systemPrompt, appendSystemPrompt }) => ({
+    args: [
+      ...(systemPrompt ? ['--system-prompt', systemPrompt] : []),
+      ...(appendSystemPrompt ? ['--append-system-prompt', appendSystemPrompt] : []),
+    ],
+  }),
+
+  toolArgs: ({ allowedTools, disallowedTools }) => {
+    const args: string[] = [];
+    if (allowedTools?.length) {
+      const allowed = mapToolNames(allowedTools, TOOLS);
+      // --tools lists built-ins only: strip rule patterns like Bash(git log:*)
+      const builtins = allowed.filter((name) => !name.startsWith('mcp__')).map((name) => name.replace(/\(.*\)$/, ''));
+      args.push('--allowedTools', allowed.join(','), '--tools', [...new Set(builtins)].join(','));
+    }
+    if (disallowedTools?.length) {
+      args.push('--disallowedTools', mapToolNames(disallowedTools, TOOLS).join(','));
+    }
+    return { args };
+  },
+
+  mcpArgs: ({ servers, writeFile }) => {
+    const mcpServers = Object.fromEntries(Object.entries(servers).map(([name, server]) => [
+      name,
+      'url' in server
+        ? { type: 'http', url: server.url, ...(server.headers ? { headers: server.headers } : {}) }
+        : { type: 'stdio', command: server.command, args: server.args ?? [], ...(server.env ? { env: server.env } : {}) },
+    ]));
+    return { args: ['--mcp-config', writeFile('mcp.json', JSON.stringify({ mcpServers }, null, 2))] };
+  },
+
+  imageArgs: ({ images, prompt }) => {
+    const content = [
+      ...images.map((image) => ({
+        type: 'image',
+        source: { type: 'base64', media_type: image.mediaType, data: readFileSync(image.path).toString('base64') },
+      })),
+      { type: 'text', text: prompt },
+    ];
+    return {
+      args: ['--input-format', 'stream-json'],
+      prompt: `${JSON.stringify({ type: 'user', message: { role: 'user', content } })}\n`,
+    };
+  },
+
+  maxTurnsFlags: (turns) => ['--max-turns', String(turns)],
+
+  outputSchemaArgs: ({ schema }) => ({ args: ['--json-schema', JSON.stringify(schema)] }),
+
+  reasoningEnv: (level): Record<string, string> => {
+    const budget = THINKING_BUDGETS[level as ReasoningEffort] ?? (/^\d+$/.test(level) ? level : undefined);
+    return budget ? { MAX_THINKING_TOKENS: budget } : {};
+  },
+
+  capabilities: {
+    resume: true,
+    sessionCreate: true,
+    fork: true,
+    reasoning: true,
+    maxTurns: true,
+    bypass: true,
+    permissionLevels: ['read-only', 'plan', 'workspace-write', 'full'],
+    cwdFlag: false,
+    additionalDirs: true,
+    images: true,
+    systemPrompt: true,
+    appendSystemPrompt: true,
+    toolFilter: true,
+    mcp: true,
+    outputSchema: true,
+    streaming: true,
+  },
 };
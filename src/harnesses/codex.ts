@@ -1,4 +1,6 @@
-import type { HarnessConfig } from '../types';
+import type { HarnessConfig, ToolCategory } from '../types';
+import { isToolCategory, mcpServerOf } from '../tools';
+import { splitModelEffort } from './models';
 
 /**
  * Codex CLI harness config.
@@ -10,56 +12,176 @@ import type { HarnessConfig } from '../types';
  * Model decomposition:
  *   Composite IDs like 'gpt-5.3-codex-high' are split into:
  *     -m gpt-5.3-codex -c model_reasoning_effort=high
- *   Standalone models (in STANDALONE_MODELS) pass through directly.
+ *   The model catalog (harnesses/models.ts) lists each model's effort
+ *   levels; catalog IDs and standalone models pass through directly.
  *
  * Working directory:
  *   -C <path> on first turn only. Omitted on resume (session has its own cwd).
+ *
+ * Permissions:
+ *   read-only and plan use the read-only sandbox, workspace-write is
+ *   --full-auto (workspace-write sandbox), full bypasses approvals and sandbox.
+ *
+ * Additional directories:
+ *   --add-dir <path> per directory: extra writable roots for the sandbox.
+ *
+ * System prompt:
+ *   Replacement instructions go through a file (-c experimental_instructions_file);
+ *   appended ones become developer instructions (-c developer_instructions).
+ *   Config values are TOML, so strings are passed quoted.
+ *
+ * MCP servers:
+ *   -c mcp_servers.<name>.<field>=<TOML value> per field: command, args
+ *   and env for stdio servers, url and http_headers for HTTP ones.
+ *
+ * Images:
+ *   -i <path,...> attaches images to the initial prompt.
+ *
+ * Structured output:
+ *   --output-schema <file> with the JSON Schema; the final agent message
+ *   is the JSON answer.
+ *
+ * Tools:
+ *   No per-tool flags; categories map to config overrides (below) and
+ *   mcp:<server> disables that server. An allowlist disables the other
+ *   categories. Reading cannot be turned off, and denying edits picks the
+ *   read-only sandbox; it also caps the permission level at read-only
+ *   (editDenialLevel), since --dangerously-bypass-approvals-and-sandbox
+ *   would switch the sandbox off again.
+ *
+ * Versions:
+ *   The thread.started / item.* JSONL events need codex-cli 0.44+.
+ *   --skip-git-repo-check is only passed to CLIs that know it.
  */
 
-/** Known effort levels for composite model ID decomposition. */
-const EFFORT_LEVELS = new Set(['medium', 'high', 'xhigh']);
+/** Effort suffixes split off model IDs that are not in the catalog. */
+const FALLBACK_EFFORT_LEVELS = ['medium', 'high', 'xhigh'];
 
-/** Models that pass directly without effort decomposition. */
-const STANDALONE_MODELS = new Set(['gpt-5.3-codex-spark']);
+/** Config overrides that switch a tool category off. */
+const DISABLE_TOOLS: Readonly<Record<ToolCategory, readonly string[]>> = {
+  shell: ['-c', 'features.shell_tool=false'],
+  edit: ['-c', 'sandbox_mode="read-only"'],
+  read: [],
+  web: ['-c', 'tools.web_search=false'],
+};
+
+/** TOML key: bare when possible, quoted otherwise. */
+function tomlKey(key: string): string {
+  return /^[A-Za-z0-9_-]+$/.test(key) ? key : JSON.stringify(key);
+}
+
+/** TOML inline table of strings (JSON strings are valid TOML basic strings). */
+function tomlTable(values: Readonly<Record<string, string>>): string {
+  return `{ ${Object.entries(values).map(([key, value]) => `${tomlKey(key)} = ${JSON.stringify(value)}`).join(', ')} }`;
+}
 
 export const codexConfig: HarnessConfig = {
   binary: 'codex',
   baseCmd: ['exec'],
   // --skip-git-repo-check: skip git repo validation (needed for worktrees
-  // where .git is a file, not a directory). Safe to include always.
-  extraArgs: ['--skip-git-repo-check'],
+  // where .git is a file, not a directory). Gated so CLIs that predate
+  // the flag do not reject it.
+  versionedArgs: [{ args: ['--skip-git-repo-check'], min: '0.20.0' }],
+  supportedVersions: { min: '0.44.0' },
   // --dangerously-bypass-approvals-and-sandbox: skip all confirmations.
   bypassFlags: ['--dangerously-bypass-approvals-and-sandbox'],
   modelFlag: '-m',
   promptVia: 'cli-sep',
   promptSep: '--',
+  // Without a prompt argument, codex exec reads it from stdin.
+  largePromptVia: 'stdin',
   stdin: 'close',
   stdout: 'jsonl',
   cwdFlag: '-C',
 
+  permissionArgs: (level) => ({
+    args: {
+      'read-only': ['--sandbox', 'read-only'],
+      plan: ['--sandbox', 'read-only'],
+      'workspace-write': ['--full-auto'],
+    }[level],
+  }),
+
+  additionalDirArgs: (dirs) => ({ args: dirs.flatMap((dir) => ['--add-dir', dir]) }),
+
   // Resume changes the subcommand: 'exec resume <id>' instead of 'exec ...'
   // These args are inserted right after baseCmd in the build function.
   sessionResumeFlags: (id) => ['resume', id],
 
   decomposeModel: (modelId) => {
-    // Standalone models — pass directly, no effort decomposition
-    if (STANDALONE_MODELS.has(modelId)) {
-      return ['-m', modelId];
-    }
-
-    // Decompose composite ID: "gpt-5.3-codex-high" → model + effort
-    for (const effort of EFFORT_LEVELS) {
-      if (modelId.endsWith(`-${effort}`)) {
-        const model = modelId.slice(0, -(effort.length + 1));
-        return ['-m', model, '-c', `model_reasoning_effort=${effort}`];
-      }
-    }
-
-    // No known effort suffix — pass as-is
-    return ['-m', modelId];
+    // Catalog-driven: "gpt-5.3-codex-high" → model + effort; catalog IDs pass as-is
+    const { model, effort } = splitModelEffort('codex', modelId, FALLBACK_EFFORT_LEVELS);
+    return effort ? ['-m', model, '-c', `model_reasoning_effort=${effort}`] : ['-m', model];
   },
 
   // Standalone reasoning parameter (oompa passes reasoning separately).
   // Skipped if decomposeModel already extracted effort from composite ID.
   reasoningFlags: (level) => ['-c', `model_reasoning_effort=${level}`],
+  // model_reasoning_effort has no 'max'.
+  reasoningLevels: ['minimal', 'low', 'medium', 'high', 'xhigh'],
+
+  systemPromptArgs: ({ systemPrompt, appendSystemPrompt, writeFile }) => ({
+    args: [
+      ...(systemPrompt
+        ? ['-c', `experimental_instructions_file=${JSON.stringify(writeFile('instructions.md', systemPrompt))}`]
+        : []),
+      ...(appendSystemPrompt ? ['-c', `developer_instructions=${JSON.stringify(appendSystemPrompt)}`] : []),
+    ],
+  }),
+
+  mcpArgs: ({ servers }) => ({
+    args: Object.entries(servers).flatMap(([name, server]) => {
+      const fields: Record<string, string> = 'url' in server
+        ? { url: JSON.stringify(server.url), ...(server.headers ? { http_headers: tomlTable(server.headers) } : {}) }
+        : {
+          command: JSON.stringify(server.command),
+          args: JSON.stringify(server.args ?? []),
+          ...(server.env ? { env: tomlTable(server.env) } : {}),
+        };
+      return Object.entries(fields).flatMap(([field, value]) => ['-c', `mcp_servers.${tomlKey(name)}.${field}=${value}`]);
+    }),
+  }),
+
+  imageArgs: ({ images }) => ({ args: ['-i', images.map((image) => image.path).join(',')] }),
+
+  outputSchemaArgs: ({ schema, writeFile }) => ({
+    args: ['--output-schema', writeFile('output-schema.json', JSON.stringify(schema, null, 2))],
+  }),
+
+  editDenialLevel: 'read-only',
+
+  toolArgs: ({ allowedTools, disallowedTools = [] }) => {
+    const denied = new Set(disallowedTools.filter(isToolCategory));
+    if (allowedTools?.length) {
+      for (const category of Object.keys(DISABLE_TOOLS) as ToolCategory[]) {
+        if (!allowedTools.includes(category)) denied.add(category);
+      }
+    }
+    const servers = disallowedTools.map(mcpServerOf).filter((server) => server !== undefined);
+    return {
+      args: [
+        ...[...denied].flatMap((category) => DISABLE_TOOLS[category]),
+        ...servers.flatMap((server) => ['-c', `mcp_servers.${tomlKey(server)}.enabled=false`]),
+      ],
+    };
+  },
+
+  capabilities: {
+    resume: true,
+    sessionCreate: false,
+    fork: false,
+    reasoning: true,
+    maxTurns: false,
+    bypass: true,
+    permissionLevels: ['read-only', 'plan', 'workspace-write', 'full'],
+    cwdFlag: true,
+    additionalDirs: true,
+    images: true,
+    systemPrompt: true,
+    appendSystemPrompt: true,
+    toolFilter: true,
+    mcp: true,
+    outputSchema: true,
+    streaming: true,
+  },
 };
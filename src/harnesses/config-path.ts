@@ -0,0 +1,58 @@
+import { existsSync, readFileSync } from 'node:fs';
+import { homedir } from 'node:os';
+import path from 'node:path';
+
+/**
+ * Path of a file in the agent-cli config directory:
+ * $XDG_CONFIG_HOME/agent-cli/<fileName> (default ~/.config/agent-cli/<fileName>).
+ */
+export function agentCliConfigPath(fileName: string): string {
+  const configHome = process.env.XDG_CONFIG_HOME || path.join(homedir(), '.config');
+  return path.join(configHome, 'agent-cli', fileName);
+}
+
+export function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === 'string');
+}
+
+/** A plain object whose values all pass `check`. */
+export function isStringRecord(value: unknown, check: (item: unknown) => boolean): boolean {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+    && Object.values(value).every(check);
+}
+
+/**
+ * Read a JSON config file and register its contents.
+ *
+ * The file is `filePath`, else $<envVar>, else <fileName> in the agent-cli
+ * config directory. An explicitly named file must exist; a missing default
+ * file is skipped. Read and register errors are prefixed with the file.
+ * Returns what `register` returns (the registered names), [] when skipped.
+ */
+export function readAgentCliConfig(
+  envVar: string,
+  fileName: string,
+  label: string,
+  filePath: string | undefined,
+  register: (parsed: unknown) => string[]
+): string[] {
+  const explicit = filePath ?? process.env[envVar];
+  const target = explicit || agentCliConfigPath(fileName);
+
+  if (!explicit && !existsSync(target)) {
+    return [];
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(readFileSync(target, 'utf-8'));
+  } catch (err) {
+    throw new Error(`Failed to read ${label} from ${target}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+
+  try {
+    return register(parsed);
+  } catch (err) {
+    throw new Error(`${target}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+}
@@ -0,0 +1,47 @@
+import type { HarnessConfig } from '../types';
+
+/**
+ * Cursor Agent CLI harness config.
+ *
+ * Session management:
+ *   Create: implicit (chat ID reported as session_id in stream-json output)
+ *   Resume: --resume <chatId>
+ *
+ * Prompt delivery:
+ *   Positional prompt; headless mode (-p/--print) is added by executeCommand
+ *   together with --output-format. There is no stdin or file input, so
+ *   prompts over MAX_ARGV_PROMPT_BYTES stay in argv.
+ *
+ * Permissions:
+ *   --force allows commands unless explicitly denied.
+ */
+export const cursorConfig: HarnessConfig = {
+  binary: 'cursor-agent',
+  baseCmd: [],
+  bypassFlags: ['--force'],
+  modelFlag: '--model',
+  promptVia: 'cli-arg',
+  stdin: 'close',
+  stdout: 'jsonl',
+  valueFlags: ['--output-format'],
+  sessionResumeFlags: (id) => ['--resume', id],
+
+  capabilities: {
+    resume: true,
+    sessionCreate: false,
+    fork: false,
+    reasoning: false,
+    maxTurns: false,
+    bypass: true,
+    permissionLevels: ['full'],
+    cwdFlag: false,
+    additionalDirs: false,
+    images: false,
+    systemPrompt: false,
+    appendSystemPrompt: false,
+    toolFilter: false,
+    mcp: false,
+    outputSchema: false,
+    streaming: true,
+  },
+};
@@ -0,0 +1,281 @@
+import type {
+  HarnessCapabilities,
+  HarnessConfig,
+  HarnessDefinition,
+  HarnessDefinitionFile,
+  ModelDecompositionTemplate,
+  SessionFlagsTemplate,
+} from '../types';
+import {
+  canonicalizeHarness,
+  getHarness,
+  getHarnessRuntime,
+  isHarnessProtocol,
+  registerHarness,
+  registry,
+} from './index';
+import { agentCliConfigPath, isStringArray, isStringRecord, readAgentCliConfig } from './config-path';
+import { deriveCapabilities } from '../capabilities';
+import { REASONING_EFFORTS, isReasoningEffort } from '../reasoning';
+
+/**
+ * Declarative harness definitions.
+ *
+ * Lets ops add or patch harnesses from a JSON file when a vendor CLI
+ * changes flags, without waiting for a package release. The file maps
+ * harness name → HarnessDefinition; function-valued config fields are
+ * expressed as templates and compiled here.
+ *
+ * Lookup order:
+ *   1. $AGENT_CLI_HARNESSES (must exist if set)
+ *   2. $XDG_CONFIG_HOME/agent-cli/harnesses.json (default ~/.config/...), skipped if absent
+ */
+
+const PROMPT_DELIVERY = ['flag', 'cli-arg', 'cli-sep', 'file'];
+const LARGE_PROMPT_DELIVERY = ['stdin', 'file'];
+const STDIN_BEHAVIOR = ['close', 'prompt', 'pipe'];
+const STDOUT_BEHAVIOR = ['jsonl', 'text', 'ignore'];
+
+/** Default location of the harnesses file. */
+export function defaultHarnessFilePath(): string {
+  return agentCliConfigPath('harnesses.json');
+}
+
+function isVersionRange(value: unknown): boolean {
+  if (typeof value !== 'object' || value === null) return false;
+  const range = value as Record<string, unknown>;
+  return (range.min === undefined || typeof range.min === 'string')
+    && (range.max === undefined || typeof range.max === 'string');
+}
+
+function validateDefinition(name: string, definition: unknown): HarnessDefinition {
+  const fail = (reason: string): never => {
+    throw new Error(`Invalid harness definition "${name}": ${reason}`);
+  };
+
+  if (typeof definition !== 'object' || definition === null || Array.isArray(definition)) {
+    return fail('expected an object');
+  }
+  const def = definition as Record<string, unknown>;
+
+  for (const key of ['extends', 'binary', 'modelFlag', 'promptFlag', 'promptSep', 'promptFileFlag', 'cwdFlag']) {
+    if (def[key] !== undefined && typeof def[key] !== 'string') fail(`"${key}" must be a string`);
+  }
+  for (const key of ['baseCmd', 'bypassFlags', 'extraArgs', 'reasoningFlags']) {
+    if (def[key] !== undefined && !isStringArray(def[key])) fail(`"${key}" must be an array of strings`);
+  }
+  if (def.versionedArgs !== undefined) {
+    const valid = Array.isArray(def.versionedArgs) && def.versionedArgs.every((entry) =>
+      typeof entry === 'object' && entry !== null && isStringArray(entry.args) && isVersionRange(entry));
+    if (!valid) fail('"versionedArgs" must be an array of { args: string[], min?: string, max?: string }');
+  }
+  if (def.reasoningLevels !== undefined
+    && !(isStringArray(def.reasoningLevels) && def.reasoningLevels.every(isReasoningEffort))) {
+    fail(`"reasoningLevels" must be an array of ${REASONING_EFFORTS.join(', ')}`);
+  }
+  if (def.supportedVersions !== undefined && !isVersionRange(def.supportedVersions)) {
+    fail('"supportedVersions" must be { min?: string, max?: string }');
+  }
+  if (def.env !== undefined && !isStringRecord(def.env, (v) => typeof v === 'string')) {
+    fail('"env" must map names to string values');
+  }
+  if (def.capabilities !== undefined) {
+    const caps = def.capabilities as Record<string, unknown> | null;
+    const valid = isStringRecord(caps, () => true) && Object.entries(caps!).every(([key, value]) =>
+      key === 'resumeIdPrefix' ? typeof value === 'string' : typeof value === 'boolean');
+    if (!valid) fail('"capabilities" must map capability names to booleans (resumeIdPrefix: string)');
+  }
+  if (def.promptVia !== undefined && !PROMPT_DELIVERY.includes(def.promptVia as string)) {
+    fail(`"promptVia" must be one of ${PROMPT_DELIVERY.join(', ')}`);
+  }
+  if (def.largePromptVia !== undefined && !LARGE_PROMPT_DELIVERY.includes(def.largePromptVia as string)) {
+    fail(`"largePromptVia" must be one of ${LARGE_PROMPT_DELIVERY.join(', ')}`);
+  }
+  if (def.stdin !== undefined && !STDIN_BEHAVIOR.includes(def.stdin as string)) {
+    fail(`"stdin" must be one of ${STDIN_BEHAVIOR.join(', ')}`);
+  }
+  if (def.stdout !== undefined && !STDOUT_BEHAVIOR.includes(def.stdout as string)) {
+    fail(`"stdout" must be one of ${STDOUT_BEHAVIOR.join(', ')}`);
+  }
+  if (def.protocol !== undefined && !isHarnessProtocol(def.protocol as string)) {
+    fail(`"protocol" must name a built-in protocol`);
+  }
+
+  for (const key of ['sessionCreateFlags', 'sessionResumeFlags', 'sessionForkFlags']) {
+    const template = def[key];
+    if (template === undefined || isStringArray(template)) continue;
+    const obj = template as Record<string, unknown> | null;
+    if (!obj || !isStringArray(obj.args) || (obj.idPrefix !== undefined && typeof obj.idPrefix !== 'string')) {
+      fail(`"${key}" must be an array of strings or { args: string[], idPrefix?: string }`);
+    }
+  }
+
+  if (def.decomposeModel !== undefined) {
+    const template = def.decomposeModel as Record<string, unknown> | null;
+    if (typeof template !== 'object' || template === null) {
+      fail('"decomposeModel" must be an object');
+    } else {
+      if (template.prefixRewrites !== undefined && !isStringRecord(template.prefixRewrites, (v) => typeof v === 'string')) {
+        fail('"decomposeModel.prefixRewrites" must map strings to strings');
+      }
+      if (template.standalone !== undefined && !isStringArray(template.standalone)) {
+        fail('"decomposeModel.standalone" must be an array of strings');
+      }
+      if (template.suffixes !== undefined && !isStringRecord(template.suffixes, isStringArray)) {
+        fail('"decomposeModel.suffixes" must map suffixes to arrays of strings');
+      }
+    }
+  }
+
+  return def as HarnessDefinition;
+}
+
+function compileSessionFlags(template: SessionFlagsTemplate): (sessionId: string) => readonly string[] {
+  const { args, idPrefix } = 'args' in template ? template : { args: template, idPrefix: undefined };
+  return (sessionId) => {
+    if (idPrefix && !sessionId.startsWith(idPrefix)) return [];
+    return args.map((arg) => arg.split('{id}').join(sessionId));
+  };
+}
+
+function compileModelDecomposition(
+  modelFlag: string,
+  template: ModelDecompositionTemplate
+): (modelId: string) => readonly string[] {
+  return (modelId) => {
+    let model = modelId;
+    for (const [from, to] of Object.entries(template.prefixRewrites ?? {})) {
+      if (model.startsWith(from)) {
+        model = `${to}${model.slice(from.length)}`;
+        break;
+      }
+    }
+
+    if (template.standalone?.includes(model)) {
+      return [modelFlag, model];
+    }
+
+    for (const [suffix, flags] of Object.entries(template.suffixes ?? {})) {
+      if (model.length > suffix.length && model.endsWith(suffix)) {
+        return [modelFlag, model.slice(0, -suffix.length), ...flags];
+      }
+    }
+
+    return [modelFlag, model];
+  };
+}
+
+function compileReasoningFlags(template: readonly string[]): (level: string) => readonly string[] {
+  return (level) => template.map((arg) => arg.split('{level}').join(level));
+}
+
+/**
+ * Capabilities of a compiled definition: re-derived from its fields (so a
+ * definition that drops resume flags loses resume), keeping what the base
+ * declared for options that cannot be derived, then explicit overrides.
+ */
+function compileCapabilities(
+  config: HarnessConfig,
+  inherited: HarnessCapabilities | undefined,
+  resumeTemplate: SessionFlagsTemplate | undefined,
+  overrides: Partial<HarnessCapabilities> | undefined
+): HarnessCapabilities {
+  const resumeIdPrefix = resumeTemplate
+    ? ('args' in resumeTemplate ? resumeTemplate.idPrefix : undefined)
+    : inherited?.resumeIdPrefix;
+
+  return {
+    ...deriveCapabilities(config),
+    ...(inherited ? {
+      images: inherited.images,
+      systemPrompt: inherited.systemPrompt,
+      appendSystemPrompt: inherited.appendSystemPrompt,
+    } : {}),
+    ...(resumeIdPrefix ? { resumeIdPrefix } : {}),
+    ...overrides,
+  };
+}
+
+/**
+ * Turn a declarative definition into a HarnessConfig.
+ *
+ * The definition is merged over the harness it extends (default: the
+ * existing harness of the same name). Templates replace the inherited
+ * function fields; untouched function fields are kept from the base.
+ */
+export function compileHarnessDefinition(name: string, definition: HarnessDefinition): HarnessConfig {
+  const def = validateDefinition(name, definition);
+  const baseName = def.extends ?? (Object.hasOwn(registry, name) ? name : undefined);
+  const base: Partial<HarnessConfig> = baseName ? getHarness(baseName) : {};
+
+  const {
+    extends: _extends,
+    sessionCreateFlags,
+    sessionResumeFlags,
+    sessionForkFlags,
+    decomposeModel,
+    reasoningFlags,
+    capabilities,
+    ...data
+  } = def;
+
+  const merged = { ...base, ...data };
+  const canonicalBase = baseName ? canonicalizeHarness(baseName) : undefined;
+  const protocol = merged.protocol
+    ?? (canonicalBase && isHarnessProtocol(canonicalBase) ? canonicalBase : undefined);
+
+  const missing = (['binary', 'baseCmd', 'bypassFlags', 'modelFlag', 'promptVia', 'stdin', 'stdout'] as const)
+    .filter((key) => merged[key] === undefined);
+  if (missing.length > 0) {
+    throw new Error(
+      `Invalid harness definition "${name}": missing ${missing.join(', ')} (set them or use "extends")`
+    );
+  }
+
+  const config = merged as HarnessConfig;
+  const compiled: HarnessConfig = {
+    ...config,
+    ...(protocol ? { protocol } : {}),
+    ...(sessionCreateFlags ? { sessionCreateFlags: compileSessionFlags(sessionCreateFlags) } : {}),
+    ...(sessionResumeFlags ? { sessionResumeFlags: compileSessionFlags(sessionResumeFlags) } : {}),
+    ...(sessionForkFlags ? { sessionForkFlags: compileSessionFlags(sessionForkFlags) } : {}),
+    ...(decomposeModel ? { decomposeModel: compileModelDecomposition(config.modelFlag, decomposeModel) } : {}),
+    ...(reasoningFlags ? { reasoningFlags: compileReasoningFlags(reasoningFlags) } : {}),
+  };
+  return {
+    ...compiled,
+    capabilities: compileCapabilities(compiled, base.capabilities, sessionResumeFlags, capabilities),
+  };
+}
+
+/**
+ * Register every harness in a definitions object, in file order (so an
+ * entry may extend one defined earlier). Runtime hooks registered for the
+ * base harness are carried over. Returns the registered names.
+ */
+export function registerHarnessDefinitions(definitions: HarnessDefinitionFile): string[] {
+  if (typeof definitions !== 'object' || definitions === null || Array.isArray(definitions)) {
+    throw new Error('Harness definitions must be an object mapping harness name to definition');
+  }
+
+  const names: string[] = [];
+  for (const [name, definition] of Object.entries(definitions)) {
+    const config = compileHarnessDefinition(name, definition);
+    const baseName = definition.extends ?? name;
+    registerHarness(name, { ...getHarnessRuntime(baseName), config });
+    names.push(name);
+  }
+  return names;
+}
+
+/**
+ * Load and register harness definitions from a JSON file.
+ *
+ * With no argument, uses $AGENT_CLI_HARNESSES or the default config path.
+ * An explicitly named file must exist; a missing default file is skipped.
+ * Returns the registered harness names.
+ */
+export function loadHarnessDefinitions(filePath?: string): string[] {
+  return readAgentCliConfig('AGENT_CLI_HARNESSES', 'harnesses.json', 'harness definitions', filePath,
+    (parsed) => registerHarnessDefinitions(parsed as HarnessDefinitionFile));
+}
@@ -1,4 +1,5 @@
-import type { HarnessConfig } from '../types';
+import type { HarnessConfig, ReasoningEffort } from '../types';
+import { mapToolNames, mcpServerOf, type ToolVocabulary } from '../tools';
 
 /**
  * Gemini CLI harness config.
@@ -10,8 +11,60 @@ import type { HarnessConfig } from '../types';
  *   would always resume the most recent one, causing fights).
  *
  * Permissions:
- *   --yolo bypasses all confirmation prompts.
+ *   --approval-mode default (headless: tools needing approval are left
+ *   out, so read-only and plan) or auto_edit; --yolo bypasses all prompts.
+ *
+ * Additional directories:
+ *   --include-directories <path,...> adds them to the workspace.
+ *
+ * System prompt:
+ *   GEMINI_SYSTEM_MD=<file> replaces the built-in system prompt. There is
+ *   no append mechanism (GEMINI.md context files are per project).
+ *
+ * Images:
+ *   `@<path>` references at the start of the prompt (spaces escaped).
+ *
+ * Settings:
+ *   Options without flags go in a temp settings.json named by
+ *   GEMINI_CLI_SYSTEM_SETTINGS_PATH (forks use their own variable).
+ *
+ * Tools:
+ *   --allowed-tools only skips confirmation (and --yolo skips it anyway),
+ *   so the lists are enforced through settings: tools.core / tools.exclude
+ *   for built-ins, mcp.allowed / mcp.excluded for MCP servers.
+ *
+ * MCP servers:
+ *   settings mcpServers (command/args/env, or httpUrl/headers).
+ *
+ * Reasoning:
+ *   No flag or env var; the thinking budget goes in settings, as a
+ *   modelConfigs override that matches every model. Shared effort levels
+ *   map to budgets below; a numeric level is used as the budget directly.
  */
+
+/** Thinking budget (tokens) per shared effort level. */
+const THINKING_BUDGETS: Readonly<Record<ReasoningEffort, number>> = {
+  minimal: 512,
+  low: 2048,
+  medium: 8192,
+  high: 16384,
+  xhigh: 24576,
+  max: 32768,
+};
+
+const TOOLS: ToolVocabulary = {
+  categories: {
+    shell: ['run_shell_command'],
+    edit: ['replace', 'write_file'],
+    read: ['read_file', 'read_many_files', 'glob', 'search_file_content', 'list_directory'],
+    web: ['web_fetch', 'google_web_search'],
+  },
+  mcp: (server) => server,
+};
+
+const builtinTools = (tools: readonly string[]) => mapToolNames(tools.filter((tool) => !mcpServerOf(tool)), TOOLS);
+const mcpServers = (tools: readonly string[]) => tools.map(mcpServerOf).filter((server) => server !== undefined);
+
 export const geminiConfig: HarnessConfig = {
   binary: 'gemini',
   baseCmd: [],
@@ -19,11 +72,81 @@ export const geminiConfig: HarnessConfig = {
   modelFlag: '-m',
   promptVia: 'flag',
   promptFlag: '-p',
+  // Without -p, piped stdin is the prompt (non-interactive).
+  largePromptVia: 'stdin',
   stdin: 'close',
   stdout: 'jsonl',
+  settingsFileEnv: 'GEMINI_CLI_SYSTEM_SETTINGS_PATH',
+
+  permissionArgs: (level) => ({ args: ['--approval-mode', level === 'workspace-write' ? 'auto_edit' : 'default'] }),
+
+  additionalDirArgs: (dirs) => ({ args: ['--include-directories', dirs.join(',')] }),
 
   // Gemini accepts UUIDs for --resume (not just "latest").
   // Using the actual session ID prevents two conversations with the
   // same CWD from fighting over a single session.
   sessionResumeFlags: (id) => ['--resume', id],
+
+  systemPromptArgs: ({ systemPrompt, writeFile }) =>
+    (systemPrompt ? { env: { GEMINI_SYSTEM_MD: writeFile('system.md', systemPrompt) } } : {}),
+
+  toolArgs: ({ allowedTools = [], disallowedTools = [] }) => ({
+    args: allowedTools.length ? ['--allowed-tools', builtinTools(allowedTools).join(',')] : [],
+    inlineConfig: {
+      tools: {
+        ...(allowedTools.length ? { core: builtinTools(allowedTools) } : {}),
+        ...(builtinTools(disallowedTools).length ? { exclude: builtinTools(disallowedTools) } : {}),
+      },
+      mcp: {
+        ...(mcpServers(allowedTools).length ? { allowed: mcpServers(allowedTools) } : {}),
+        ...(mcpServers(disallowedTools).length ? { excluded: mcpServers(disallowedTools) } : {}),
+      },
+    },
+  }),
+
+  mcpArgs: ({ servers }) => ({
+    inlineConfig: {
+      mcpServers: Object.fromEntries(Object.entries(servers).map(([name, server]) => [
+        name,
+        'url' in server
+          ? { httpUrl: server.url, ...(server.headers ? { headers: server.headers } : {}) }
+          : { command: server.command, args: server.args ?? [], ...(server.env ? { env: server.env } : {}) },
+      ])),
+    },
+  }),
+
+  reasoningConfig: (level) => {
+    const budget = THINKING_BUDGETS[level as ReasoningEffort] ?? (/^\d+$/.test(level) ? Number(level) : undefined);
+    if (budget === undefined) return undefined;
+    return {
+      modelConfigs: {
+        customOverrides: [
+          { match: {}, modelConfig: { generateContentConfig: { thinkingConfig: { thinkingBudget: budget } } } },
+        ],
+      },
+    };
+  },
+
+  imageArgs: ({ images, prompt }) => ({
+    prompt: [...images.map((image) => `@${image.path.replace(/ /g, '\\ ')}`), prompt].join(' '),
+  }),
+
+  capabilities: {
+    resume: true,
+    sessionCreate: false,
+    fork: false,
+    reasoning: true,
+    maxTurns: false,
+    bypass: true,
+    permissionLevels: ['read-only', 'plan', 'workspace-write', 'full'],
+    cwdFlag: false,
+    additionalDirs: true,
+    images: true,
+    systemPrompt: true,
+    appendSystemPrompt: false,
+    toolFilter: true,
+    mcp: true,
+    outputSchema: false,
+    streaming: true,
+  },
 };
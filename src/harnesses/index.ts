@@ -1,31 +1,113 @@
-import type { Harness, HarnessConfig, HarnessName } from '../types';
+import type {
+  Harness,
+  HarnessConfig,
+  HarnessProtocol,
+  HarnessName,
+  HarnessRegistration,
+  HarnessRuntime,
+  RegisteredHarness,
+} from '../types';
 import { claudeConfig } from './claude';
 import { codexConfig } from './codex';
 import { opencodeConfig } from './opencode';
 import { geminiConfig } from './gemini';
+import { aiderConfig } from './aider';
+import { cursorConfig } from './cursor';
+import { qwenConfig } from './qwen';
+import { getHarnessProfile, isProfileName, listProfiles, profileBaseHarness } from './profiles';
 
 const geminiAliasPattern = /^gemini\d+$/;
 
-/** Registry of all known harness configs. One entry per CLI agent. */
-export const registry: Record<Harness, HarnessConfig> = {
+const protocols: readonly HarnessProtocol[] = ['claude', 'codex', 'opencode', 'gemini', 'aider', 'cursor-agent'];
+
+const builtinHarnesses: readonly Harness[] = [...protocols, 'qwen'];
+
+/**
+ * Registry of all known harness configs. One entry per CLI agent.
+ * Starts with the built-in harnesses; registerHarness() adds or overrides entries.
+ */
+export const registry: Record<Harness | RegisteredHarness, HarnessConfig> = {
   claude: claudeConfig,
   codex: codexConfig,
   opencode: opencodeConfig,
   gemini: geminiConfig,
+  aider: aiderConfig,
+  'cursor-agent': cursorConfig,
+  qwen: qwenConfig,
 };
 
+/** Runtime hooks supplied through registerHarness(), keyed by harness name. */
+const runtimes = new Map<string, HarnessRuntime>();
+
+export function isBuiltinHarness(name: string): name is Harness {
+  return builtinHarnesses.includes(name as Harness);
+}
+
+export function isHarnessProtocol(name: string): name is HarnessProtocol {
+  return protocols.includes(name as HarnessProtocol);
+}
+
 export function isGeminiAlias(name: string): name is Extract<HarnessName, `gemini${number}`> {
-  return geminiAliasPattern.test(name);
+  // A registered harness always wins over alias resolution.
+  return geminiAliasPattern.test(name) && !Object.hasOwn(registry, name);
 }
 
-export function canonicalizeHarness(name: HarnessName | string): Harness {
-  return isGeminiAlias(name) ? 'gemini' : name as Harness;
+export function canonicalizeHarness(name: HarnessName | string): Harness | RegisteredHarness {
+  if (isProfileName(name)) return canonicalizeHarness(profileBaseHarness(name));
+  return isGeminiAlias(name) ? 'gemini' : name;
+}
+
+/**
+ * Register a harness at runtime (or override a built-in one).
+ *
+ * The config drives buildCommand; the optional runtime hooks drive
+ * executeCommand. Overriding a built-in keeps its parser, session capture,
+ * and mode flags unless replacements are given; a new harness can reuse
+ * a built-in's instead by setting config.protocol.
+ */
+export function registerHarness(name: string, registration: HarnessRegistration): void {
+  if (!name) {
+    throw new Error('Harness name must be a non-empty string');
+  }
+  if (isProfileName(name)) {
+    throw new Error(`Harness name "${name}" may not contain "@" (reserved for profiles; use registerProfile)`);
+  }
+  if (!isHarnessProtocol(name) && !registration.createParser && !registration.config.protocol) {
+    throw new Error(
+      `Harness "${name}" must provide createParser or config.protocol (only built-in harnesses have a default parser)`
+    );
+  }
+
+  const { config, createParser, captureSessionId, modeExtraArgs } = registration;
+  registry[name] = config;
+  runtimes.set(name, { createParser, captureSessionId, modeExtraArgs });
+}
+
+/** Runtime hooks registered for a harness, if any. */
+export function getHarnessRuntime(name: HarnessName | string): HarnessRuntime | undefined {
+  return runtimes.get(canonicalizeHarness(name));
 }
 
 /** Get a harness config by name. Throws on unknown harness. */
 export function getHarness(name: HarnessName | string): HarnessConfig {
+  // Profiles (claude@work) run their base harness with overrides.
+  if (isProfileName(name)) {
+    const profile = getHarnessProfile(name);
+    if (!profile) {
+      const known = listProfiles().join(', ') || '(none)';
+      throw new Error(`Unknown harness profile: "${name}". Known: ${known}`);
+    }
+    const base = getHarness(profileBaseHarness(name));
+    return {
+      ...base,
+      binary: profile.binary ?? base.binary,
+      ...(profile.extraArgs ? { extraArgs: [...(base.extraArgs ?? []), ...profile.extraArgs] } : {}),
+      ...(profile.env ? { env: { ...base.env, ...profile.env } } : {}),
+    };
+  }
+
   const canonical = canonicalizeHarness(name);
-  const config = registry[canonical as Harness];
+  const config = registry[canonical];
   if (!config) {
     const known = Object.keys(registry).join(', ');
     throw new Error(`Unknown harness: "${name}". Known: ${known}`);
@@ -40,7 +122,7 @@ export function getHarness(name: HarnessName | string): HarnessConfig {
   return config;
 }
 
-/** List all known harness names. */
-export function listHarnesses(): Harness[] {
-  return Object.keys(registry) as Harness[];
+/** List all known harness names (built-in and registered). */
+export function listHarnesses(): Array<Harness | RegisteredHarness> {
+  return Object.keys(registry);
 }
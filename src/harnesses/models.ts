@@ -0,0 +1,169 @@
+import type { ModelCatalogFile, ModelEntry } from '../types';
+import { agentCliConfigPath, isStringArray, isStringRecord, readAgentCliConfig } from './config-path';
+
+/**
+ * Model catalog: known model IDs per harness, with friendly aliases
+ * (`best`, `fast`), supported effort levels, and standalone markers.
+ *
+ * Keys are canonical harness names (callers resolve profiles and gemini
+ * aliases first). A harness without catalog entries accepts any model
+ * without warnings.
+ *
+ * Local overrides (merged by ID over the built-in entries):
+ *   1. $AGENT_CLI_MODELS (must exist if set)
+ *   2. $XDG_CONFIG_HOME/agent-cli/models.json (default ~/.config/...), skipped if absent
+ */
+
+const builtinCatalog: Readonly<Record<string, readonly ModelEntry[]>> = {
+  claude: [
+    { id: 'opus', aliases: ['best'] },
+    { id: 'sonnet' },
+    { id: 'haiku', aliases: ['fast'] },
+    { id: 'opusplan' },
+    { id: 'claude-opus-4-1-20250805' },
+    { id: 'claude-sonnet-4-5-20250929' },
+    { id: 'claude-haiku-4-5-20251001' },
+  ],
+  codex: [
+    { id: 'gpt-5.3-codex', aliases: ['best'], efforts: ['medium', 'high', 'xhigh'] },
+    // Exact ID only: never split into model + effort.
+    { id: 'gpt-5.3-codex-spark', aliases: ['fast'], standalone: true },
+    { id: 'gpt-5.2-codex', efforts: ['medium', 'high', 'xhigh'] },
+    { id: 'gpt-5', efforts: ['minimal', 'low', 'medium', 'high'] },
+  ],
+  gemini: [
+    { id: 'gemini-2.5-pro', aliases: ['best'] },
+    { id: 'gemini-2.5-flash', aliases: ['fast'] },
+    { id: 'gemini-2.5-flash-lite' },
+  ],
+  qwen: [
+    { id: 'qwen3-coder-plus', aliases: ['best'] },
+    { id: 'qwen3-coder-flash', aliases: ['fast'] },
+  ],
+  'cursor-agent': [
+    { id: 'auto' },
+    { id: 'sonnet-4' },
+    { id: 'sonnet-4-thinking' },
+    { id: 'opus-4.1', aliases: ['best'] },
+    { id: 'gpt-5' },
+  ],
+};
+
+/** Entries added via registerModels()/loadModelCatalog(), keyed by harness. */
+const overrides = new Map<string, ModelEntry[]>();
+
+function validateEntry(harness: string, entry: unknown): ModelEntry {
+  const fail = (reason: string): never => {
+    throw new Error(`Invalid model entry for "${harness}": ${reason}`);
+  };
+
+  if (typeof entry !== 'object' || entry === null || Array.isArray(entry)) return fail('expected an object');
+  const model = entry as Record<string, unknown>;
+  if (typeof model.id !== 'string' || !model.id) fail('"id" must be a non-empty string');
+  if (model.aliases !== undefined && !isStringArray(model.aliases)) fail(`"${model.id}": "aliases" must be an array of strings`);
+  if (model.efforts !== undefined && !isStringArray(model.efforts)) fail(`"${model.id}": "efforts" must be an array of strings`);
+  if (model.standalone !== undefined && typeof model.standalone !== 'boolean') fail(`"${model.id}": "standalone" must be a boolean`);
+  return model as unknown as ModelEntry;
+}
+
+/**
+ * Add or replace catalog entries for a harness. Entries replace built-in
+ * (or earlier) entries with the same ID; their aliases take precedence.
+ */
+export function registerModels(harness: string, entries: readonly ModelEntry[]): void {
+  if (!Array.isArray(entries)) {
+    throw new Error(`Invalid model entries for "${harness}": expected an array`);
+  }
+  const added = entries.map((entry) => validateEntry(harness, entry));
+  const ids = new Set(added.map((entry) => entry.id));
+  const kept = (overrides.get(harness) ?? []).filter((entry) => !ids.has(entry.id));
+  overrides.set(harness, [...added, ...kept]);
+}
+
+/** Catalog for a canonical harness name: overrides first, then built-ins. */
+export function getModelCatalog(harness: string): readonly ModelEntry[] {
+  const added = overrides.get(harness) ?? [];
+  const ids = new Set(added.map((entry) => entry.id));
+  return [...added, ...(builtinCatalog[harness] ?? []).filter((entry) => !ids.has(entry.id))];
+}
+
+/** Harness names that have catalog entries. */
+export function listModelCatalogs(): string[] {
+  return [...new Set([...Object.keys(builtinCatalog), ...overrides.keys()])];
+}
+
+/** Resolve a friendly alias (`best`, `fast`) to its model ID; other IDs pass through. */
+export function resolveModelAlias(harness: string, model: string): string {
+  const entry = getModelCatalog(harness).find((candidate) => candidate.aliases?.includes(model));
+  return entry ? entry.id : model;
+}
+
+/**
+ * Split a composite `<id>-<effort>` model ID using the catalog.
+ *
+ * Catalog IDs (and standalone entries) pass through whole. Unlisted IDs
+ * fall back to stripping any of `fallbackEfforts` as a suffix, so new
+ * models keep working before they are added to the catalog.
+ */
+export function splitModelEffort(
+  harness: string,
+  modelId: string,
+  fallbackEfforts: readonly string[] = []
+): { model: string; effort?: string } {
+  const catalog = getModelCatalog(harness);
+  if (catalog.some((entry) => entry.id === modelId)) {
+    return { model: modelId };
+  }
+
+  for (const entry of catalog) {
+    if (entry.standalone) continue;
+    const effort = entry.efforts?.find((level) => modelId === `${entry.id}-${level}`);
+    if (effort) return { model: entry.id, effort };
+  }
+
+  for (const effort of fallbackEfforts) {
+    if (modelId.endsWith(`-${effort}`)) {
+      return { model: modelId.slice(0, -(effort.length + 1)), effort };
+    }
+  }
+  return { model: modelId };
+}
+
+/**
+ * Whether a model ID, alias, or composite `<id>-<effort>` is in the catalog.
+ * Always true for harnesses without a catalog.
+ */
+export function isKnownModel(harness: string, model: string): boolean {
+  const catalog = getModelCatalog(harness);
+  if (catalog.length === 0) return true;
+  return catalog.some((entry) =>
+    entry.id === model
+    || entry.aliases?.includes(model)
+    || (!entry.standalone && entry.efforts?.some((level) => model === `${entry.id}-${level}`)));
+}
+
+/** Default location of the model catalog override file. */
+export function defaultModelsFilePath(): string {
+  return agentCliConfigPath('models.json');
+}
+
+/**
+ * Load catalog overrides from a JSON file (harness name → model entries).
+ *
+ * With no argument, uses $AGENT_CLI_MODELS or the default config path.
+ * An explicitly named file must exist; a missing default file is skipped.
+ * Returns the harness names that received entries.
+ */
+export function loadModelCatalog(filePath?: string): string[] {
+  return readAgentCliConfig('AGENT_CLI_MODELS', 'models.json', 'model catalog', filePath, (parsed) => {
+    if (!isStringRecord(parsed, () => true)) {
+      throw new Error('model catalog must be an object mapping harness name to model entries');
+    }
+    const harnesses: string[] = [];
+    for (const [harness, entries] of Object.entries(parsed as ModelCatalogFile)) {
+      registerModels(harness, entries);
+      harnesses.push(harness);
+    }
+    return harnesses;
+  });
+}
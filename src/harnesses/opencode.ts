@@ -1,4 +1,5 @@
-import type { HarnessConfig } from '../types';
+import type { HarnessConfig, PermissionLevel } from '../types';
+import { mapToolNames, type ToolVocabulary } from '../tools';
 
 /**
  * OpenCode CLI harness config.
@@ -10,15 +11,69 @@ import type { HarnessConfig } from '../types';
  *
  * Model normalization:
  *   Legacy 'openai/...' format → 'opencode/...' (backward compatibility)
+ *
+ * Inline config:
+ *   Options without flags go in OPENCODE_CONFIG_CONTENT (merged JSON config).
+ *
+ * Permissions:
+ *   The "permission" config: read-only and plan deny edits and shell,
+ *   workspace-write allows edits and asks before shell commands. There is
+ *   no bypass flag; OpenCode allows everything by default.
+ *
+ * Additional directories:
+ *   Not supported: OpenCode has no per-directory access control to grant
+ *   (outside paths go through its permission prompts).
+ *
+ * System prompt:
+ *   A replacement prompt defines
+ *   a primary agent (selected with --agent) whose prompt is read from a
+ *   file; appended instructions are listed under "instructions".
+ *
+ * MCP servers:
+ *   "mcp" config: local servers take the command line as one array.
+ *
+ * Images:
+ *   --file <path>, once per image.
+ *
+ * Tools:
+ *   The "tools" config maps tool names (or globs, <server>_* for MCP) to
+ *   on/off; an allowlist turns everything else off with "*".
+ *
+ * Reasoning:
+ *   --variant <level> selects the provider's reasoning variant (e.g. high, max).
  */
+/** Agent defined on the fly to carry a replacement system prompt. */
+const SYSTEM_PROMPT_AGENT = 'agent-cli';
+
+/** "permission" config per level. */
+const PERMISSIONS: Readonly<Record<Exclude<PermissionLevel, 'full'>, Readonly<Record<string, string>>>> = {
+  'read-only': { edit: 'deny', bash: 'deny' },
+  plan: { edit: 'deny', bash: 'deny' },
+  'workspace-write': { edit: 'allow', bash: 'ask' },
+};
+
+const TOOLS: ToolVocabulary = {
+  categories: {
+    shell: ['bash'],
+    edit: ['edit', 'write', 'patch'],
+    read: ['read', 'grep', 'glob', 'list'],
+    web: ['webfetch'],
+  },
+  mcp: (server) => `${server}_*`,
+};
+
 export const opencodeConfig: HarnessConfig = {
   binary: 'opencode',
   baseCmd: ['run'],
   bypassFlags: [],
   modelFlag: '-m',
   promptVia: 'cli-arg',
+  // opencode run reads piped stdin as the message.
+  largePromptVia: 'stdin',
   stdin: 'close',
   stdout: 'jsonl',
+  valueFlags: ['--format', '--agent', '--file', '--session'],
+  inlineConfigEnv: 'OPENCODE_CONFIG_CONTENT',
 
   // Only resume if the session ID has the expected ses_ prefix
   sessionResumeFlags: (id) =>
@@ -31,4 +86,68 @@ export const opencodeConfig: HarnessConfig = {
       : modelId;
     return ['-m', normalized];
   },
+
+  reasoningFlags: (level) => ['--variant', level],
+
+  permissionArgs: (level) => ({ inlineConfig: { permission: PERMISSIONS[level] } }),
+
+  systemPromptArgs: ({ systemPrompt, appendSystemPrompt, writeFile }) => {
+    const config: Record<string, unknown> = {};
+    if (systemPrompt) {
+      const file = writeFile('system.md', systemPrompt);
+      config.agent = { [SYSTEM_PROMPT_AGENT]: { mode: 'primary', prompt: `{file:${file}}` } };
+    }
+    if (appendSystemPrompt) {
+      config.instructions = [writeFile('instructions.md', appendSystemPrompt)];
+    }
+    return {
+      args: systemPrompt ? ['--agent', SYSTEM_PROMPT_AGENT] : [],
+      inlineConfig: config,
+    };
+  },
+
+  mcpArgs: ({ servers }) => ({
+    inlineConfig: {
+      mcp: Object.fromEntries(Object.entries(servers).map(([name, server]) => [
+        name,
+        'url' in server
+          ? { type: 'remote', url: server.url, enabled: true, ...(server.headers ? { headers: server.headers } : {}) }
+          : {
+            type: 'local',
+            command: [server.command, ...(server.args ?? [])],
+            enabled: true,
+            ...(server.env ? { environment: server.env } : {}),
+          },
+      ])),
+    },
+  }),
+
+  imageArgs: ({ images }) => ({ args: images.flatMap((image) => ['--file', image.path]) }),
+
+  toolArgs: ({ allowedTools = [], disallowedTools = [] }) => {
+    const tools: Record<string, boolean> = allowedTools.length ? { '*': false } : {};
+    for (const name of mapToolNames(allowedTools, TOOLS)) tools[name] = true;
+    for (const name of mapToolNames(disallowedTools, TOOLS)) tools[name] = false;
+    return { inlineConfig: { tools } };
+  },
+
+  capabilities: {
+    resume: true,
+    resumeIdPrefix: 'ses_',
+    sessionCreate: false,
+    fork: false,
+    reasoning: true,
+    maxTurns: false,
+    bypass: false,
+    permissionLevels: ['read-only', 'plan', 'workspace-write'],
+    cwdFlag: false,
+    additionalDirs: false,
+    images: true,
+    systemPrompt: true,
+    appendSystemPrompt: true,
+    toolFilter: true,
+    mcp: true,
+    outputSchema: false,
+    streaming: true,
+  },
 };
@@ -0,0 +1,84 @@
+import type { HarnessProfile, HarnessProfileFile, HarnessProfileName } from '../types';
+import { agentCliConfigPath, isStringRecord, readAgentCliConfig } from './config-path';
+
+/**
+ * Named harness profiles: `<harness>@<profile>` (e.g. `claude@work`).
+ *
+ * A profile runs its base harness with a different binary, environment
+ * (CLAUDE_CONFIG_DIR, CODEX_HOME, ...), default model, or extra args, so
+ * several accounts of the same CLI stay isolated. Generalizes the
+ * `gemini<N>` binary aliases to every harness.
+ *
+ * Lookup order for the profiles file:
+ *   1. $AGENT_CLI_PROFILES (must exist if set)
+ *   2. $XDG_CONFIG_HOME/agent-cli/profiles.json (default ~/.config/...), skipped if absent
+ */
+
+const profilePattern = /^([^@]+)@(.+)$/;
+
+/** Registered profiles, keyed by full profile name. */
+const profiles = new Map<string, HarnessProfile>();
+
+export function isProfileName(name: string): name is HarnessProfileName {
+  return profilePattern.test(name);
+}
+
+/** Base harness name of a profile (`claude@work` → `claude`). */
+export function profileBaseHarness(name: HarnessProfileName): string {
+  return profilePattern.exec(name)![1];
+}
+
+/** Register (or replace) a harness profile. */
+export function registerProfile(name: string, profile: HarnessProfile): void {
+  const fail = (reason: string): never => {
+    throw new Error(`Invalid harness profile "${name}": ${reason}`);
+  };
+
+  if (!isProfileName(name)) fail('name must look like <harness>@<profile>');
+  if (typeof profile !== 'object' || profile === null || Array.isArray(profile)) fail('expected an object');
+  if (profile.binary !== undefined && typeof profile.binary !== 'string') fail('"binary" must be a string');
+  if (profile.model !== undefined && typeof profile.model !== 'string') fail('"model" must be a string');
+  if (profile.env !== undefined && !isStringRecord(profile.env, (v) => typeof v === 'string')) fail('"env" must map names to string values');
+  if (profile.extraArgs !== undefined
+    && !(Array.isArray(profile.extraArgs) && profile.extraArgs.every((arg) => typeof arg === 'string'))) {
+    fail('"extraArgs" must be an array of strings');
+  }
+
+  profiles.set(name, profile);
+}
+
+/** Profile registered under this exact name, if any. */
+export function getHarnessProfile(name: string): HarnessProfile | undefined {
+  return profiles.get(name);
+}
+
+/** List all registered profile names. */
+export function listProfiles(): HarnessProfileName[] {
+  return [...profiles.keys()] as HarnessProfileName[];
+}
+
+/** Default location of the profiles file. */
+export function defaultProfilesFilePath(): string {
+  return agentCliConfigPath('profiles.json');
+}
+
+/**
+ * Load and register profiles from a JSON file (profile name → profile).
+ *
+ * With no argument, uses $AGENT_CLI_PROFILES or the default config path.
+ * An explicitly named file must exist; a missing default file is skipped.
+ * Returns the registered profile names.
+ */
+export function loadProfiles(filePath?: string): string[] {
+  return readAgentCliConfig('AGENT_CLI_PROFILES', 'profiles.json', 'harness profiles', filePath, (parsed) => {
+    if (!isStringRecord(parsed, () => true)) {
+      throw new Error('profiles file must be an object mapping profile name to profile');
+    }
+    const names: string[] = [];
+    for (const [name, profile] of Object.entries(parsed as HarnessProfileFile)) {
+      registerProfile(name, profile);
+      names.push(name);
+    }
+    return names;
+  });
+}
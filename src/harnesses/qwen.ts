@@ -0,0 +1,33 @@
+import type { HarnessConfig } from '../types';
+import { geminiConfig } from './gemini';
+
+/**
+ * Qwen Code CLI harness config.
+ *
+ * Qwen Code is a Gemini CLI fork: same flags (-p, -m, --yolo,
+ * --resume <uuid>) and the same stream-json event shapes, so it reuses
+ * geminiConfig syntax and the Gemini protocol parser. Only the binary
+ * differs, plus the env vars for the system prompt override (QWEN_SYSTEM_MD)
+ * and the system settings file (QWEN_CODE_SYSTEM_SETTINGS_PATH), and the
+ * approval modes (qwen has plan and spells auto-edit with a hyphen).
+ * Other Gemini-family forks can follow the same pattern with a
+ * config entry (or a harnesses.json definition with "extends": "gemini").
+ *
+ * Models: qwen3-coder-plus, qwen3-coder-flash, or any OpenAI-compatible
+ * model ID configured for the CLI.
+ */
+export const qwenConfig: HarnessConfig = {
+  ...geminiConfig,
+  binary: 'qwen',
+  protocol: 'gemini',
+  settingsFileEnv: 'QWEN_CODE_SYSTEM_SETTINGS_PATH',
+  permissionArgs: (level) => ({
+    args: {
+      'read-only': ['--approval-mode', 'default'],
+      plan: ['--approval-mode', 'plan'],
+      'workspace-write': ['--approval-mode', 'auto-edit'],
+    }[level],
+  }),
+  systemPromptArgs: ({ systemPrompt, writeFile }) =>
+    (systemPrompt ? { env: { QWEN_SYSTEM_MD: writeFile('system.md', systemPrompt) } } : {}),
+};
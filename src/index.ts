@@ -1,7 +1,7 @@
 /**
  * @nbardy/agent-cli — Shared CLI agent invocation tool.
  *
- * Single source of truth for how to invoke Claude, Codex, OpenCode, Gemini CLIs.
+ * Single source of truth for how to invoke Claude, Codex, OpenCode, Gemini, Qwen Code, Aider, Cursor Agent CLIs.
  * Both oompa_loompas (Clojure, shells out to CLI) and claude-web-view
  * (TypeScript, imports this library) consume this package.
  *
@@ -14,27 +14,78 @@
  *   import { buildCommand } from '@nbardy/agent-cli';
  *   const spec = buildCommand('claude', { model: 'opus', prompt: 'hello', sessionId: 'abc' });
  *
+ * Usage (library — custom harnesses):
+ *   import { registerHarness, loadHarnessDefinitions } from '@nbardy/agent-cli';
+ *   registerHarness('my-cli', { config, createParser });
+ *   loadHarnessDefinitions();  // $AGENT_CLI_HARNESSES or ~/.config/agent-cli/harnesses.json
+ *   registerProfile('claude@work', { env: { CLAUDE_CONFIG_DIR: '/home/me/.claude-work' } });
+ *
  * Usage (CLI):
  *   agent-cli run --harness claude --model opus --prompt "hello" --session abc
  */
 
 export type {
   Harness,
+  HarnessProtocol,
   HarnessName,
   GeminiAlias,
+  RegisteredHarness,
   HarnessConfig,
+  HarnessRuntime,
+  HarnessRegistration,
+  HarnessModeContext,
+  HarnessDefinition,
+  HarnessDefinitionFile,
+  HarnessProfile,
+  HarnessProfileName,
+  HarnessProfileFile,
+  SessionFlagsTemplate,
+  ModelDecompositionTemplate,
   BuildOptions,
+  BuildIssue,
+  BuildIssueSeverity,
   CommandSpec,
+  BuildStep,
+  CommandSegment,
+  ExplainedCommand,
+  ParsedCommand,
+  HarnessCapabilities,
+  ReasoningEffort,
+  PermissionLevel,
+  ModelEntry,
+  ModelCatalogFile,
+  VersionRange,
+  VersionedArgs,
+  OptionContext,
+  OptionDelivery,
+  SystemPromptContext,
+  ToolCategory,
+  ToolName,
+  ToolFilterContext,
+  McpServer,
+  McpStdioServer,
+  McpHttpServer,
+  McpContext,
+  Attachment,
+  AttachmentKind,
+  ImageAttachment,
+  ImageContext,
+  ImageDelivery,
+  JsonSchema,
+  OutputSchemaContext,
   PromptDelivery,
   StdinBehavior,
   StdoutBehavior,
 } from './types';
 
-export { buildCommand } from './build';
-export { runCommand, executeCommand, executeTurn } from './run';
+export { MAX_ARGV_PROMPT_BYTES, buildCommand, cleanupCommandSpec, explainCommand } from './build';
+export { renderExplanation, renderShellCommand, shellQuote, type ShellRenderOptions } from './shell';
+export { parseCommand } from './parse';
+export { runCommand, executeCommand, executeTurn, stopProcess, MINIMAL_ENV_ALLOWLIST } from './run';
 export type {
   RunOptions,
   RunResult,
+  StopOptions,
   UnifiedAgentEvent,
   ExecuteCommandRequest,
   ExecuteCommandCompletion,
@@ -47,5 +98,39 @@ export type {
   TurnMode,
   CompletionReason,
 } from './run';
-export { getHarness, listHarnesses, registry } from './harnesses';
+export { getHarness, listHarnesses, registerHarness, registry } from './harnesses';
+export {
+  compileHarnessDefinition,
+  registerHarnessDefinitions,
+  loadHarnessDefinitions,
+  defaultHarnessFilePath,
+} from './harnesses/definitions';
+export {
+  registerProfile,
+  getHarnessProfile,
+  listProfiles,
+  loadProfiles,
+  defaultProfilesFilePath,
+} from './harnesses/profiles';
+export {
+  registerModels,
+  getModelCatalog,
+  listModelCatalogs,
+  resolveModelAlias,
+  isKnownModel,
+  loadModelCatalog,
+  defaultModelsFilePath,
+} from './harnesses/models';
 export { resolveBinary } from './resolve';
+export { REASONING_EFFORTS, isReasoningEffort, normalizeReasoningEffort } from './reasoning';
+export { PERMISSION_LEVELS, isPermissionLevel } from './permissions';
+export { IMAGE_MEDIA_TYPES, splitAttachments, inlineTextFiles } from './attachments';
+export { extractJson, outputSchemaInstructions, validateJsonSchema } from './schema';
+export { TOOL_CATEGORIES, isToolCategory, mapToolNames, mcpServerOf, type ToolVocabulary } from './tools';
+export { detectVersion, parseVersion, compareVersions, versionInRange } from './version';
+export {
+  capabilityMatrix,
+  deriveCapabilities,
+  getHarnessCapabilities,
+  validateBuildOptions,
+} from './capabilities';
@@ -0,0 +1,209 @@
+import path from 'node:path';
+import type { BuildOptions, HarnessConfig, ParsedCommand, PermissionLevel } from './types';
+import { getHarness, isGeminiAlias, listHarnesses } from './harnesses';
+import { PERMISSION_LEVELS } from './permissions';
+
+/**
+ * Placeholder fed to config hooks to turn them back into argv patterns:
+ * sessionResumeFlags(HOLE) → ['--resume', HOLE], and so on.
+ */
+const HOLE = '\u0000';
+
+/** A run of argv tokens; a token holding HOLE captures the text in its place. */
+type Pattern = readonly string[];
+
+/**
+ * Match a pattern at argv[i]. Returns the captured value ('' when the
+ * pattern has no hole) and the number of tokens consumed, or null.
+ * A `--flag <value>` pair also matches the `--flag=value` spelling.
+ */
+function matchAt(argv: readonly string[], i: number, pattern: Pattern): { value: string; length: number } | null {
+  if (pattern.length === 0) return null;
+  if (pattern.length === 2 && pattern[0].startsWith('--') && pattern[1] === HOLE
+    && argv[i]?.startsWith(`${pattern[0]}=`)) {
+    return { value: argv[i].slice(pattern[0].length + 1), length: 1 };
+  }
+  let value = '';
+  for (const [offset, expected] of pattern.entries()) {
+    const token = argv[i + offset];
+    if (token === undefined) return null;
+    const hole = expected.indexOf(HOLE);
+    if (hole < 0) {
+      if (token !== expected) return null;
+      continue;
+    }
+    const before = expected.slice(0, hole);
+    const after = expected.slice(hole + HOLE.length);
+    if (!token.startsWith(before) || !token.endsWith(after) || token.length < before.length + after.length) return null;
+    value = token.slice(before.length, token.length - after.length);
+  }
+  return { value, length: pattern.length };
+}
+
+function sameArgs(a: readonly string[], b: readonly string[]): boolean {
+  return a.length === b.length && a.every((arg, i) => arg === b[i]);
+}
+
+/**
+ * The harness whose binary (by basename) and baseCmd start argv; the
+ * longest baseCmd wins. Gemini aliases (gemini2) are their own binary.
+ */
+function identifyHarness(argv: readonly string[]): string | undefined {
+  const binary = path.basename(argv[0] ?? '');
+  let best: { name: string; length: number } | undefined;
+  for (const name of [...listHarnesses(), ...(isGeminiAlias(binary) ? [binary] : [])]) {
+    const config = getHarness(name);
+    if (config.binary !== binary || !sameArgs(argv.slice(1, 1 + config.baseCmd.length), config.baseCmd)) continue;
+    if (!best || config.baseCmd.length > best.length) best = { name, length: config.baseCmd.length };
+  }
+  return best?.name;
+}
+
+/** Permission levels below 'full' that a harness delivers as plain args, with their argv. */
+function permissionPatterns(config: HarnessConfig): Array<[PermissionLevel, Pattern]> {
+  if (!config.permissionArgs) return [];
+  const patterns: Array<[PermissionLevel, Pattern]> = [];
+  for (const level of PERMISSION_LEVELS) {
+    if (level === 'full') continue;
+    const delivery = config.permissionArgs(level);
+    if (delivery.args?.length && !delivery.env && !delivery.inlineConfig) patterns.push([level, delivery.args]);
+  }
+  // Longest first, so `--sandbox read-only` is not read as a shorter level.
+  return patterns.sort(([, a], [, b]) => b.length - a.length);
+}
+
+/**
+ * Parse an existing command line back into BuildOptions.
+ *
+ * The harness is identified from the binary name and baseCmd. Flags are
+ * recognized through the harness config itself (session, bypass and
+ * permission, cwd, model, reasoning, turn limit and prompt flags), so
+ * `buildCommand(harness, options)` rebuilds the command in canonical flag
+ * order. Codex model and effort flags are re-composed into one model ID
+ * when decomposeModel would split it the same way. The config's own
+ * extraArgs and versionedArgs are dropped (buildCommand adds them back for
+ * the installed CLI); anything else is kept in extraArgs, in order, with
+ * the config's valueFlags keeping their value. A prompt given to the
+ * prompt flag of a harness that reads it from stdin becomes options.prompt.
+ *
+ * Throws when no registered harness matches the binary, or on a turn
+ * limit that is not a positive whole number.
+ */
+export function parseCommand(argv: readonly string[]): ParsedCommand {
+  const harness = identifyHarness(argv);
+  if (!harness) {
+    throw new Error(`Unrecognized command: no harness runs ${argv[0] ?? '(empty argv)'}`);
+  }
+  const config = getHarness(harness);
+  const options: BuildOptions = {};
+  const extraArgs: string[] = [];
+  const idPrefix = config.capabilities?.resumeIdPrefix ?? '';
+  const generated: Pattern[] = [
+    config.extraArgs ?? [],
+    ...(config.versionedArgs ?? []).map((gated) => gated.args),
+  ].filter((pattern) => pattern.length > 0);
+
+  const rest = argv.slice(1 + config.baseCmd.length);
+  let i = 0;
+  let flagValueAtEnd = false;
+  const take = (pattern: Pattern | undefined): string | undefined => {
+    const match = pattern ? matchAt(rest, i, pattern) : null;
+    if (!match) return undefined;
+    i += match.length;
+    return match.value;
+  };
+
+  // The ID prefix stays in the pattern, so only IDs the harness accepts match.
+  const resumePattern = config.sessionResumeFlags?.(`${idPrefix}${HOLE}`) ?? [];
+  const takeResume = (): boolean => {
+    const id = take(resumePattern);
+    if (id !== undefined) Object.assign(options, { sessionId: `${idPrefix}${id}`, resume: true });
+    return id !== undefined;
+  };
+  // Resume subcommands (codex exec resume <id>) only count right after baseCmd.
+  const resumeIsSubcommand = resumePattern.length > 0 && !resumePattern[0].startsWith('-');
+  if (resumeIsSubcommand) takeResume();
+
+  while (i < rest.length) {
+    let value: string | undefined;
+
+    // Forks reuse the resume flags, so they are tried first.
+    if (config.sessionForkFlags && (value = take(config.sessionForkFlags(HOLE))) !== undefined) {
+      options.forkFromSessionId = value;
+    } else if (!resumeIsSubcommand && !options.resume && takeResume()) {
+      // takeResume recorded the session
+    } else if (config.sessionCreateFlags && (value = take(config.sessionCreateFlags(HOLE))) !== undefined) {
+      options.sessionId = value;
+    } else if (config.bypassFlags.length > 0 && take(config.bypassFlags) !== undefined) {
+      options.bypassPermissions = true;
+    } else if (!options.permissionLevel && parsePermission()) {
+      // parsePermission consumed the level's args
+    } else if (config.cwdFlag && (value = take([config.cwdFlag, HOLE])) !== undefined) {
+      options.cwd = value;
+    } else if ((value = take([config.modelFlag, HOLE])) !== undefined) {
+      options.model = value;
+    } else if (config.reasoningFlags && (value = take(config.reasoningFlags(HOLE))) !== undefined) {
+      options.reasoning = value;
+    } else if (config.maxTurnsFlags && (value = take(numberPattern(config.maxTurnsFlags))) !== undefined) {
+      const turns = Number(value);
+      if (!Number.isInteger(turns) || turns < 1) {
+        throw new Error(`Invalid turn limit in ${harness} command: "${value}" is not a positive whole number`);
+      }
+      options.maxTurns = turns;
+    } else if (config.stdin !== 'prompt' && config.promptVia === 'flag'
+      && (value = take([config.promptFlag!, HOLE])) !== undefined) {
+      options.prompt = value;
+    } else if (config.stdin === 'prompt' && config.promptVia === 'flag' && rest[i] === config.promptFlag
+      && i + 1 < rest.length && !rest[i + 1].startsWith('-')) {
+      // Legacy `claude -p "text"`: the flag stays, the prompt moves to stdin.
+      extraArgs.push(rest[i]);
+      options.prompt = rest[i + 1];
+      i += 2;
+    } else if (config.stdin !== 'prompt' && config.promptVia === 'cli-sep' && rest[i] === config.promptSep) {
+      i += 1;
+      if (i < rest.length) options.prompt = rest[i++];
+    } else if (config.valueFlags?.includes(rest[i]) && i + 1 < rest.length) {
+      extraArgs.push(rest[i], rest[i + 1]);
+      i += 2;
+      flagValueAtEnd = i === rest.length;
+    } else if (!generated.some((pattern) => take(pattern) !== undefined)) {
+      extraArgs.push(rest[i++]);
+    }
+  }
+
+  // A positional prompt is the last argument, unless that is a flag's value.
+  if (config.stdin !== 'prompt' && config.promptVia === 'cli-arg' && !flagValueAtEnd
+    && extraArgs.length > 0 && !extraArgs.at(-1)!.startsWith('-') && rest.at(-1) === extraArgs.at(-1)) {
+    options.prompt = extraArgs.pop();
+  }
+  composeModel(config, options);
+  if (extraArgs.length > 0) options.extraArgs = extraArgs;
+  return { harness, options };
+
+  function parsePermission(): boolean {
+    for (const [level, pattern] of permissionPatterns(config)) {
+      if (take(pattern) !== undefined) {
+        options.permissionLevel = level;
+        return true;
+      }
+    }
+    return false;
+  }
+}
+
+/** Fold a model and effort back into the composite model ID decomposeModel would split that way. */
+function composeModel(config: HarnessConfig, options: BuildOptions): void {
+  const { model, reasoning } = options;
+  if (!model || !reasoning || !config.decomposeModel || !config.reasoningFlags) return;
+  const composite = `${model}-${reasoning}`;
+  if (sameArgs(config.decomposeModel(composite), [config.modelFlag, model, ...config.reasoningFlags(reasoning)])) {
+    options.model = composite;
+    delete options.reasoning;
+  }
+}
+
+/** Pattern of a hook that takes a number: a marker value stands in for the hole. */
+function numberPattern(flags: (value: number) => readonly string[]): Pattern {
+  const marker = 9_876_543_210;
+  return flags(marker).map((arg) => arg.replace(String(marker), HOLE));
+}
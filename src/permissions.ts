@@ -0,0 +1,8 @@
+import type { PermissionLevel } from './types';
+
+/** The shared permission levels, most to least restricted. */
+export const PERMISSION_LEVELS: readonly PermissionLevel[] = ['read-only', 'plan', 'workspace-write', 'full'];
+
+export function isPermissionLevel(level: string): level is PermissionLevel {
+  return PERMISSION_LEVELS.includes(level as PermissionLevel);
+}
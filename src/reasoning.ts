@@ -0,0 +1,28 @@
+import type { HarnessConfig, ReasoningEffort } from './types';
+
+/** The shared effort scale, lowest to highest. */
+export const REASONING_EFFORTS: readonly ReasoningEffort[] = ['minimal', 'low', 'medium', 'high', 'xhigh', 'max'];
+
+export function isReasoningEffort(level: string): level is ReasoningEffort {
+  return REASONING_EFFORTS.includes(level as ReasoningEffort);
+}
+
+/**
+ * Map a requested effort onto a harness's own levels.
+ *
+ * Levels on the shared scale snap to the nearest level the harness lists
+ * in reasoningLevels (ties go to the lower one, e.g. `minimal` → `low`
+ * and `max` → `high` on aider). Anything else is a harness-native
+ * value and passes through unchanged.
+ */
+export function normalizeReasoningEffort(config: HarnessConfig, level: string): string {
+  const supported = config.reasoningLevels;
+  if (!supported || supported.length === 0 || !isReasoningEffort(level) || supported.includes(level)) {
+    return level;
+  }
+
+  const rank = REASONING_EFFORTS.indexOf(level);
+  const distance = (candidate: ReasoningEffort): number => Math.abs(REASONING_EFFORTS.indexOf(candidate) - rank);
+  // reasoningLevels is ordered low → high, so the lower level wins ties.
+  return supported.reduce((best, candidate) => (distance(candidate) < distance(best) ? candidate : best));
+}
@@ -1,7 +1,26 @@
 import { spawn, type ChildProcess } from 'node:child_process';
-import type { BuildOptions, CommandSpec, Harness, HarnessName, GeminiAlias } from './types';
-import { buildCommand } from './build';
-import { canonicalizeHarness } from './harnesses';
+import path from 'node:path';
+import type {
+  Attachment,
+  BuildOptions,
+  CommandSpec,
+  HarnessName,
+  HarnessProtocol,
+  GeminiAlias,
+  JsonSchema,
+  McpServer,
+  PermissionLevel,
+  ReasoningEffort,
+  RegisteredHarness,
+  ToolName,
+  VersionRange,
+} from './types';
+import { buildCommand, cleanupCommandSpec } from './build';
+import { getHarnessCapabilities, validateBuildOptions } from './capabilities';
+import { detectVersion, versionInRange } from './version';
+import { extractJson, outputSchemaInstructions, validateJsonSchema } from './schema';
+import { splitAttachments } from './attachments';
+import { canonicalizeHarness, getHarness, getHarnessRuntime } from './harnesses';
 
 /**
  * Options for runCommand — extends BuildOptions with process-level settings.
@@ -13,8 +32,53 @@ export interface RunOptions extends BuildOptions {
   onStderr?: (data: Buffer) => void;
   /** Spawn detached process group (used by long-running server integrations). */
   detached?: boolean;
+  /**
+   * Start the child from a minimal environment (MINIMAL_ENV_ALLOWLIST plus
+   * `envAllowlist`) instead of inheriting the whole parent env. Spec env
+   * overrides are applied on top either way.
+   */
+  minimalEnv?: boolean;
+  /** Extra parent variables to keep when `minimalEnv` is set. */
+  envAllowlist?: readonly string[];
+  /** Stop the process once it has run this long (ms); `done` reports `timedOut: 'total'`. */
+  timeoutMs?: number;
+  /**
+   * Stop the process after this long (ms) without stdout/stderr output;
+   * `done` reports `timedOut: 'idle'`. Output is piped (and passed through
+   * to this process without callbacks) so activity can be seen.
+   */
+  idleTimeoutMs?: number;
 }
 
+/** Parent variables kept when a run starts from a minimal environment. */
+export const MINIMAL_ENV_ALLOWLIST: readonly string[] = [
+  'PATH', 'HOME', 'USER', 'LOGNAME', 'SHELL', 'TERM',
+  'LANG', 'LC_ALL', 'LC_CTYPE', 'TZ', 'TMPDIR', 'TEMP', 'TMP',
+  'SYSTEMROOT', 'COMSPEC', 'PATHEXT', 'USERPROFILE', 'APPDATA', 'LOCALAPPDATA',
+];
+
+/** How to stop an agent process (stopProcess, ExecuteCommandHandle.stop). */
+export interface StopOptions {
+  /** Signal to send once (default SIGTERM); ignored when graceMs is set. */
+  signal?: NodeJS.Signals;
+  /**
+   * Escalate SIGINT → SIGTERM → SIGKILL, giving the process this long (ms)
+   * to exit after each signal.
+   */
+  graceMs?: number;
+  /**
+   * Signal the child's whole process group, so tools it started go too
+   * (the child must have been spawned detached).
+   */
+  processGroup?: boolean;
+}
+
+/** Signals sent by a graceful stop, in order. */
+const STOP_ESCALATION: readonly NodeJS.Signals[] = ['SIGINT', 'SIGTERM', 'SIGKILL'];
+
+/** How long a timed-out process gets after each signal. */
+const TIMEOUT_GRACE_MS = 5_000;
+
 /**
  * Result from a completed agent run.
  */
@@ -23,11 +87,21 @@ export interface RunResult {
   exitCode: number | null;
   /** The CommandSpec that was executed */
   spec: CommandSpec;
+  /** Set when the process was stopped by timeoutMs ('total') or idleTimeoutMs ('idle') */
+  timedOut?: 'total' | 'idle';
 }
 
-export type CodexReasoningLevel = 'minimal' | 'low' | 'medium' | 'high' | 'xhigh' | 'max';
+/** @deprecated Reasoning effort now applies to every harness; use ReasoningEffort. */
+export type CodexReasoningLevel = ReasoningEffort;
 export type TurnMode = 'conversation' | 'single-shot';
-export type CompletionReason = 'success' | 'out_of_tokens' | 'error' | 'killed';
+export type CompletionReason =
+  | 'success'
+  | 'out_of_tokens'
+  | 'error'
+  | 'killed'
+  | 'max_turns'
+  | 'invalid_output'
+  | 'timeout';
 
 type BaseExecuteCommandRequest<THarness extends HarnessName> = {
   harness: THarness;
@@ -36,31 +110,94 @@ type BaseExecuteCommandRequest<THarness extends HarnessName> = {
   cwd: string;
   model?: string;
   extraArgs?: readonly string[];
+  /**
+   * Reasoning effort on the shared scale, mapped to the harness's own
+   * control. Harnesses without one emit a `warning` event instead.
+   */
+  reasoningEffort?: ReasoningEffort;
+  /** Replace the harness's system prompt. Unsupported harnesses emit a `warning` event. */
+  systemPrompt?: string;
+  /** Append to the harness's default system prompt. Unsupported harnesses emit a `warning` event. */
+  appendSystemPrompt?: string;
+  /** Restrict the agent to these tools (shared vocabulary, see ToolName). */
+  allowedTools?: readonly ToolName[];
+  /** Take these tools away from the agent (shared vocabulary, see ToolName). */
+  disallowedTools?: readonly ToolName[];
+  /** MCP servers for this run; temp config files are removed before `completed` resolves. */
+  mcpServers?: Readonly<Record<string, McpServer>>;
+  /**
+   * Images and text files to send with the prompt (paths relative to cwd).
+   * executeCommand throws if the harness cannot take the images (Claude
+   * takes them in conversation mode only).
+   */
+  attachments?: readonly Attachment[];
+  /** Directories outside cwd the agent may use. Unsupported harnesses emit a `warning` event. */
+  additionalDirs?: readonly string[];
+  /**
+   * Cap on agentic turns. Harnesses with a native limit get its flag
+   * (Claude --max-turns); elsewhere each `tool.use` counts as a turn and
+   * the process is stopped past the cap. Either way the turn completes
+   * with reason `max_turns`.
+   */
+  maxTurns?: number;
+  /** Cap on tool calls (`tool.use` events), enforced by the library on every harness. */
+  maxSteps?: number;
+  /**
+   * JSON Schema for the final answer. Harnesses with native support get
+   * their flag (Codex --output-schema, Claude --json-schema); the others
+   * are asked for JSON in the prompt. The answer (text after the last tool
+   * call) is parsed and validated: a match ends up in the completion's
+   * `output`, anything else completes with reason `invalid_output`.
+   */
+  outputSchema?: JsonSchema;
+  /**
+   * Stop the agent once the turn has run this long (ms). The turn
+   * completes with reason `timeout` after an `error` event naming the limit.
+   */
+  timeoutMs?: number;
+  /** Stop the agent after this long (ms) without stdout/stderr output; completes like timeoutMs. */
+  idleTimeoutMs?: number;
   /** Explicit first-turn session ID to create/use when not resuming. */
   sessionId?: string;
   /** Existing provider session ID to resume. */
   resumeSessionId?: string;
-  /** True by default: run in maximum non-interactive mode where supported. */
+  /**
+   * Existing session to branch from: the turn runs in a new session
+   * (reported through `session.started`) and the parent is left as is.
+   * executeCommand throws if the harness cannot fork.
+   */
+  forkFromSessionId?: string;
+  /**
+   * Permission policy for the turn (see PermissionLevel). Harnesses that
+   * lack the level emit a `warning` event. Overrides `yolo` and `fullAuto`.
+   */
+  permissionLevel?: PermissionLevel;
+  /** True by default: alias of permissionLevel 'full' (false: the CLI's own defaults). */
   yolo?: boolean;
   /** Mirror raw provider stdout/stderr to this process stderr for debugging. */
   debugRawEvents?: boolean;
   /** Spawn detached process group. */
   detached?: boolean;
+  /** Installed CLI version to build flags for; probed (`--version`) when unset. */
+  cliVersion?: string;
+  /** Environment overrides for the agent process (over harness/profile env). */
+  env?: Readonly<Record<string, string>>;
+  /** Start from MINIMAL_ENV_ALLOWLIST (+ envAllowlist) instead of the full parent env. */
+  minimalEnv?: boolean;
+  /** Extra parent variables to keep when `minimalEnv` is set. */
+  envAllowlist?: readonly string[];
 };
 
-type CodexExecuteCommandRequest = BaseExecuteCommandRequest<'codex'> & {
-  reasoningEffort?: CodexReasoningLevel;
+type CodexExecuteCommandRequest = BaseExecuteCommandRequest<'codex' | `codex@${string}`> & {
   /**
-   * Codex-only automation mode.
-   * When true, executeCommand adds `--full-auto` and suppresses
-   * `--dangerously-bypass-approvals-and-sandbox` (the two flags are incompatible).
+   * Codex-only automation mode: alias of permissionLevel 'workspace-write'
+   * (`--full-auto` instead of `--dangerously-bypass-approvals-and-sandbox`).
    */
   fullAuto?: boolean;
 };
 
 type NonCodexExecuteCommandRequest<THarness extends Exclude<HarnessName, 'codex'>> =
   BaseExecuteCommandRequest<THarness> & {
-    reasoningEffort?: never;
     fullAuto?: never;
   };
 
@@ -69,15 +206,22 @@ export type ExecuteCommandRequest =
   | NonCodexExecuteCommandRequest<'claude'>
   | NonCodexExecuteCommandRequest<'opencode'>
   | NonCodexExecuteCommandRequest<'gemini'>
-  | NonCodexExecuteCommandRequest<GeminiAlias>;
+  | NonCodexExecuteCommandRequest<'aider'>
+  | NonCodexExecuteCommandRequest<'cursor-agent'>
+  | NonCodexExecuteCommandRequest<'qwen'>
+  | NonCodexExecuteCommandRequest<GeminiAlias>
+  | NonCodexExecuteCommandRequest<RegisteredHarness>;
 
 export type UnifiedAgentEvent =
   | { type: 'session.started'; sessionId: string }
   | { type: 'turn.started' }
   | { type: 'text.delta'; text: string }
-  | { type: 'tool.use'; name: string; input: Record<string, unknown>; displayText?: string }
+  /** Events with the same callId describe one tool call (e.g. Codex item.started / item.completed). */
+  | { type: 'tool.use'; name: string; input: Record<string, unknown>; displayText?: string; callId?: string }
   | { type: 'out_of_tokens'; message: string }
   | { type: 'error'; message: string }
+  /** Something the harness could not honor; the turn still runs. */
+  | { type: 'warning'; message: string }
   | { type: 'turn.complete'; reason: CompletionReason }
   | { type: 'stderr'; text: string };
 
@@ -88,6 +232,8 @@ export interface ExecuteCommandCompletion {
   exitCode: number | null;
   /** Final resolved provider session/thread id for this turn. */
   sessionId: string;
+  /** The final answer parsed as JSON, when the request had an outputSchema and it matched. */
+  output?: unknown;
   /** Built command spec that was executed. */
   spec: CommandSpec;
 }
@@ -100,7 +246,13 @@ export interface ExecuteCommandHandle {
   sessionId: Promise<string>;
   /** Resolves exactly once when the turn finishes. */
   completed: Promise<ExecuteCommandCompletion>;
-  stop: (signal?: NodeJS.Signals) => void;
+  /**
+   * Stop the agent; the turn completes with reason `killed`. A signal
+   * (default SIGTERM) is sent once; `{ graceMs }` escalates SIGINT →
+   * SIGTERM → SIGKILL. Detached runs signal the whole process group.
+   * Resolves when the escalation is over (see stopProcess).
+   */
+  stop: (options?: NodeJS.Signals | StopOptions) => Promise<void>;
 }
 
 interface AsyncQueue<T> {
@@ -217,53 +369,92 @@ function flushDebugTrailing(prefix: string, trailing: string): void {
   }
 }
 
+/**
+ * Built-in protocol a harness speaks: its config's `protocol`, or its own
+ * canonical name. Selects the parser, session capture and mode flags.
+ */
+function protocolOf(harness: string): HarnessProtocol {
+  return getHarness(harness).protocol ?? canonicalizeHarness(harness) as HarnessProtocol;
+}
+
+/** Claude CLI releases that understand --include-partial-messages. */
+const CLAUDE_PARTIAL_MESSAGES: VersionRange = { min: '1.0.86' };
+
 function buildModeExtraArgs(
-  harness: Harness,
+  harness: string,
   mode: TurnMode,
-  yolo: boolean,
+  permissionLevel: PermissionLevel | undefined,
   cwd: string,
-  codexFullAuto: boolean
+  cliVersion: () => string | null,
+  restrictsTools: boolean
 ): readonly string[] {
+  const runtime = getHarnessRuntime(harness);
+  if (runtime?.modeExtraArgs) {
+    return runtime.modeExtraArgs({ mode, yolo: permissionLevel === 'full', permissionLevel, cwd });
+  }
+
+  const protocol = protocolOf(harness);
   if (mode === 'single-shot') {
-    switch (harness) {
+    switch (protocol) {
       case 'claude':
         return ['-p', '--output-format', 'text'];
       case 'gemini':
         return ['--output-format', 'text'];
       case 'codex':
-        return codexFullAuto ? ['--full-auto'] : [];
+        return [];
       case 'opencode':
         return [];
+      case 'aider':
+        return ['--no-pretty'];
+      case 'cursor-agent':
+        return ['-p', '--output-format', 'text'];
     }
   }
 
   // conversation mode
-  switch (harness) {
+  switch (protocol) {
     case 'claude': {
-      const args = ['-p', '--verbose', '--output-format', 'stream-json', '--include-partial-messages'];
-      if (yolo) {
-        args.push('--permission-mode', 'bypassPermissions', '--tools', 'default', '--add-dir', cwd);
+      const args = ['-p', '--verbose', '--output-format', 'stream-json'];
+      if (versionInRange(cliVersion(), CLAUDE_PARTIAL_MESSAGES)) {
+        args.push('--include-partial-messages');
+      }
+      if (permissionLevel === 'full') {
+        args.push('--permission-mode', 'bypassPermissions');
+        // An allowlist brings its own --tools (see claudeConfig.toolArgs).
+        if (!restrictsTools) args.push('--tools', 'default');
+        args.push('--add-dir', cwd);
       }
       return args;
     }
     case 'codex':
-      return codexFullAuto ? ['--full-auto', '--json'] : ['--json'];
+      return ['--json'];
     case 'gemini':
       return ['--output-format', 'stream-json'];
     case 'opencode':
       return ['--format', 'json'];
+    case 'aider':
+      return ['--no-pretty', '--no-fancy-input'];
+    case 'cursor-agent':
+      return ['-p', '--output-format', 'stream-json'];
   }
 }
 
-function captureSessionIdFromJson(harness: Harness, json: unknown): string | undefined {
+function captureSessionIdFromJson(harness: string, json: unknown): string | undefined {
+  const runtime = getHarnessRuntime(harness);
+  if (runtime?.captureSessionId) {
+    return runtime.captureSessionId(json);
+  }
+
   const obj = asObject(json);
   if (!obj) return undefined;
 
-  if (harness === 'codex' && obj.type === 'thread.started') {
+  const protocol = protocolOf(harness);
+
+  if (protocol === 'codex' && obj.type === 'thread.started') {
     return asString(obj.thread_id);
   }
 
-  if (harness === 'opencode') {
+  if (protocol === 'opencode') {
     const part = asObject(obj.part);
     const candidate =
       obj.sessionID ??
@@ -275,14 +466,27 @@ function captureSessionIdFromJson(harness: Harness, json: unknown): string | und
     return asString(candidate);
   }
 
-  if (harness === 'claude') {
+  if (protocol === 'claude') {
     return asString(obj.session_id) ?? asString(obj.sessionId);
   }
 
-  if (harness === 'gemini') {
+  if (protocol === 'gemini') {
     return asString(obj.session_id) ?? asString(obj.sessionId);
   }
 
+  if (protocol === 'cursor-agent') {
+    return asString(obj.session_id);
+  }
+
+  return undefined;
+}
+
+/** Schema-checked answer a harness reports apart from its text (Claude's result structured_output). */
+function captureStructuredOutput(harness: string, json: unknown): { value: unknown } | undefined {
+  const obj = asObject(json);
+  if (protocolOf(harness) === 'claude' && obj?.type === 'result' && obj.structured_output !== undefined) {
+    return { value: obj.structured_output };
+  }
   return undefined;
 }
 
@@ -393,6 +597,12 @@ function createClaudeParser(): (json: unknown) => UnifiedAgentEvent[] {
       if (subtype === 'success') {
         return [{ type: 'turn.complete', reason: 'success' }];
       }
+      if (subtype === 'error_max_turns') {
+        return [
+          { type: 'error', message: 'Claude reached its turn limit (--max-turns)' },
+          { type: 'turn.complete', reason: 'max_turns' },
+        ];
+      }
       const message = asString(obj.result) ?? 'Claude returned an error';
       const classified = classifyError(message);
       return [
@@ -415,6 +625,12 @@ function parseClaude(json: unknown): UnifiedAgentEvent[] {
 // Exported for testing.
 export { createClaudeParser };
 
+/** The Codex item id, as a tool.use callId (started and completed items share it). */
+function callIdOf(item: Record<string, unknown>): { callId?: string } {
+  const id = asString(item.id);
+  return id ? { callId: id } : {};
+}
+
 function parseCodex(json: unknown): UnifiedAgentEvent[] {
   const obj = asObject(json);
   if (!obj) return [{ type: 'error', message: 'Codex emitted non-object JSON' }];
@@ -455,7 +671,7 @@ function parseCodex(json: unknown): UnifiedAgentEvent[] {
       const item = asObject(obj.item);
       if (asString(item?.type) === 'command_execution' && asString(item?.command)) {
         const command = asString(item!.command)!;
-        return [{ type: 'tool.use', name: 'shell', input: { command }, displayText: `${command}\n` }];
+        return [{ type: 'tool.use', name: 'shell', input: { command }, displayText: `${command}\n`, ...callIdOf(item!) }];
       }
       return [];
     }
@@ -463,6 +679,7 @@ function parseCodex(json: unknown): UnifiedAgentEvent[] {
       const item = asObject(obj.item);
       const itemType = asString(item?.type);
       if (!itemType) return [];
+      const callId = callIdOf(item!);
 
       if (itemType === 'agent_message' && asString(item?.text)) {
         return [{ type: 'text.delta', text: asString(item!.text)! }];
@@ -479,22 +696,23 @@ function parseCodex(json: unknown): UnifiedAgentEvent[] {
               command,
               ...(exitCode === undefined ? {} : { exit_code: exitCode }),
             },
+            ...callId,
           },
         ];
       }
 
       if (itemType === 'file_change') {
         const changes = Array.isArray(item?.changes) ? item!.changes : [];
-        return [{ type: 'tool.use', name: 'file_change', input: { changes } }];
+        return [{ type: 'tool.use', name: 'file_change', input: { changes }, ...callId }];
       }
 
       if (itemType === 'mcp_tool_call') {
         const name = asString(item?.name) ?? 'mcp_tool';
-        return [{ type: 'tool.use', name, input: {} }];
+        return [{ type: 'tool.use', name, input: {}, ...callId }];
       }
 
       if (itemType === 'web_search') {
-        return [{ type: 'tool.use', name: 'web_search', input: {} }];
+        return [{ type: 'tool.use', name: 'web_search', input: {}, ...callId }];
       }
 
       return [];
@@ -605,13 +823,23 @@ function parseOpenCode(json: unknown): UnifiedAgentEvent[] {
   }
 }
 
-function parseGemini(json: unknown): UnifiedAgentEvent[] {
+/** Display names for Gemini-family harnesses in parser error messages. */
+const GEMINI_FAMILY_LABELS: Readonly<Record<string, string>> = {
+  gemini: 'Gemini',
+  qwen: 'Qwen Code',
+};
+
+/**
+ * Gemini stream-json parser, shared by every Gemini-family fork (qwen and
+ * any harness with `protocol: 'gemini'`). `label` names the CLI in errors.
+ */
+function parseGemini(json: unknown, label = 'Gemini'): UnifiedAgentEvent[] {
   const obj = asObject(json);
-  if (!obj) return [{ type: 'error', message: 'Gemini emitted non-object JSON' }];
+  if (!obj) return [{ type: 'error', message: `${label} emitted non-object JSON` }];
 
   const type = asString(obj.type);
   if (!type) {
-    return [{ type: 'error', message: `Gemini JSON missing required "type": ${JSON.stringify(obj)}` }];
+    return [{ type: 'error', message: `${label} JSON missing required "type": ${JSON.stringify(obj)}` }];
   }
   if (type === 'init') return [{ type: 'turn.started' }];
 
@@ -639,7 +867,7 @@ function parseGemini(json: unknown): UnifiedAgentEvent[] {
     const message =
       asString(obj.error) ??
       asString(obj.message) ??
-      `Gemini result failed: ${String(obj.status ?? 'unknown')}`;
+      `${label} result failed: ${String(obj.status ?? 'unknown')}`;
     const classified = classifyError(message);
     return [
       classified.kind === 'out_of_tokens'
@@ -649,10 +877,150 @@ function parseGemini(json: unknown): UnifiedAgentEvent[] {
     ];
   }
 
-  return [{ type: 'error', message: `Gemini emitted unrecognized event type "${type}": ${JSON.stringify(obj)}` }];
+  return [{ type: 'error', message: `${label} emitted unrecognized event type "${type}": ${JSON.stringify(obj)}` }];
 }
 
-function parseJsonEvent(harness: Harness, json: unknown): UnifiedAgentEvent[] {
+/**
+ * Name a cursor-agent tool call. Tool calls arrive keyed by kind
+ * (`{ shellToolCall: { args } }`, `{ readToolCall: { args } }`), or as a
+ * generic `{ function: { name, arguments } }` for MCP/other tools.
+ */
+function describeCursorToolCall(toolCall: Record<string, unknown>): { name: string; input: Record<string, unknown> } {
+  const fn = asObject(toolCall.function);
+  if (fn) {
+    let input: Record<string, unknown> = {};
+    const rawArgs = asString(fn.arguments);
+    if (rawArgs) {
+      try {
+        input = asObject(JSON.parse(rawArgs)) ?? {};
+      } catch {
+        // Malformed arguments — keep the event with empty input.
+      }
+    }
+    return { name: asString(fn.name) ?? 'tool', input };
+  }
+
+  const [key, value] = Object.entries(toolCall)[0] ?? ['tool', {}];
+  const name = key.endsWith('ToolCall') ? key.slice(0, -'ToolCall'.length) : key;
+  return { name, input: asObject(asObject(value)?.args) ?? {} };
+}
+
+function parseCursor(json: unknown): UnifiedAgentEvent[] {
+  const obj = asObject(json);
+  if (!obj) return [{ type: 'error', message: 'Cursor Agent emitted non-object JSON' }];
+
+  const type = asString(obj.type);
+  const subtype = asString(obj.subtype);
+
+  switch (type) {
+    case 'system':
+      return subtype === 'init' ? [{ type: 'turn.started' }] : [];
+    case 'assistant': {
+      const content = asObject(obj.message)?.content;
+      if (!Array.isArray(content)) return [];
+      const text = content
+        .map((entry) => asString(asObject(entry)?.text) ?? '')
+        .join('');
+      return text ? [{ type: 'text.delta', text }] : [];
+    }
+    case 'tool_call': {
+      if (subtype !== 'started') return [];
+      const toolCall = asObject(obj.tool_call);
+      if (!toolCall) return [];
+      const { name, input } = describeCursorToolCall(toolCall);
+      const command = asString(input.command);
+      return [{ type: 'tool.use', name, input, displayText: `${command ?? name}\n` }];
+    }
+    case 'result': {
+      if (subtype === 'success' && obj.is_error !== true) {
+        return [{ type: 'turn.complete', reason: 'success' }];
+      }
+      const classified = classifyError(asString(obj.result) ?? asString(obj.error) ?? 'Cursor Agent returned an error');
+      return [
+        classified.kind === 'out_of_tokens'
+          ? { type: 'out_of_tokens', message: classified.message }
+          : { type: 'error', message: classified.message },
+        { type: 'turn.complete', reason: classified.kind === 'out_of_tokens' ? 'out_of_tokens' : 'error' },
+      ];
+    }
+    default:
+      return [];
+  }
+}
+
+/** Startup banner and bookkeeping lines aider prints around the actual reply. */
+const AIDER_NOISE_PATTERNS = [
+  /^Aider v\d/,
+  /^(?:Main|Weak|Editor) model:/,
+  /^Model:/,
+  /^Git repo:/,
+  /^Repo-map:/,
+  /^Added .+ to the chat/,
+  /^Use \/help/,
+  /^Tokens: .+ sent/,
+  /^Cost: /,
+  /^[─-]{3,}$/,
+];
+
+const AIDER_ERROR_PATTERN = /^(?:litellm\.\w+|\w*Error:|The API provider)/;
+
+/**
+ * Stateful aider output parser.
+ *
+ * Aider has no JSON mode, so executeCommand feeds it raw stdout lines
+ * (strings) and `null` once the process exits cleanly. Recognized lines:
+ *   "Applied edit to <file>"   → tool.use (edit)
+ *   "Commit <hash> <message>"  → tool.use (git_commit)
+ *   litellm / API errors       → error or out_of_tokens
+ * Banner and token-accounting lines are dropped; everything else is text.
+ * End of stream produces the terminal turn.complete.
+ */
+function createAiderParser(): (line: unknown) => UnifiedAgentEvent[] {
+  let failure: 'error' | 'out_of_tokens' | null = null;
+  let sawText = false;
+
+  return (line: unknown): UnifiedAgentEvent[] => {
+    if (line === null) {
+      return [{ type: 'turn.complete', reason: failure ?? 'success' }];
+    }
+
+    const text = asString(line);
+    if (text === undefined) return [{ type: 'error', message: 'Aider parser expects text lines' }];
+
+    const trimmed = text.trim();
+    if (!trimmed) {
+      return sawText ? [{ type: 'text.delta', text: '\n' }] : [];
+    }
+    if (AIDER_NOISE_PATTERNS.some((pattern) => pattern.test(trimmed))) {
+      return [];
+    }
+
+    const edit = /^Applied edit to (.+)$/.exec(trimmed);
+    if (edit) {
+      return [{ type: 'tool.use', name: 'edit', input: { file_path: edit[1] }, displayText: `${trimmed}\n` }];
+    }
+
+    const commit = /^Commit ([0-9a-f]{7,40}) (.+)$/.exec(trimmed);
+    if (commit) {
+      return [{ type: 'tool.use', name: 'git_commit', input: { hash: commit[1], message: commit[2] } }];
+    }
+
+    if (AIDER_ERROR_PATTERN.test(trimmed)) {
+      const classified = classifyError(trimmed);
+      failure = failure === 'out_of_tokens' ? failure : classified.kind;
+      return [
+        classified.kind === 'out_of_tokens'
+          ? { type: 'out_of_tokens', message: classified.message }
+          : { type: 'error', message: classified.message },
+      ];
+    }
+
+    sawText = true;
+    return [{ type: 'text.delta', text: `${text}\n` }];
+  };
+}
+
+function parseJsonEvent(harness: HarnessProtocol, json: unknown): UnifiedAgentEvent[] {
   switch (harness) {
     case 'claude':
       return parseClaude(json);
@@ -662,16 +1030,130 @@ function parseJsonEvent(harness: Harness, json: unknown): UnifiedAgentEvent[] {
       return parseOpenCode(json);
     case 'gemini':
       return parseGemini(json);
+    case 'aider':
+      return createAiderParser()(json);
+    case 'cursor-agent':
+      return parseCursor(json);
   }
 }
 
 /**
  * Create a stateful parser for a harness. Claude needs cross-event state to
  * accumulate tool input_json_delta; other harnesses are stateless wrappers.
+ * Harnesses added via registerHarness() supply their own parser factory.
  */
-function createParser(harness: Harness): (json: unknown) => UnifiedAgentEvent[] {
-  if (harness === 'claude') return createClaudeParser();
-  return (json: unknown) => parseJsonEvent(harness, json);
+function createParser(harness: string): (json: unknown) => UnifiedAgentEvent[] {
+  const runtime = getHarnessRuntime(harness);
+  if (runtime?.createParser) return runtime.createParser();
+  const protocol = protocolOf(harness);
+  if (protocol === 'claude') return createClaudeParser();
+  if (protocol === 'aider') return createAiderParser();
+  if (protocol === 'gemini') {
+    const label = GEMINI_FAMILY_LABELS[harness] ?? harness;
+    return (json: unknown) => parseGemini(json, label);
+  }
+  return (json: unknown) => parseJsonEvent(protocol, json);
+}
+
+/**
+ * Compute the child environment. Undefined means "inherit process.env
+ * unchanged", which is what spawn does by default.
+ */
+function buildProcessEnv(spec: CommandSpec, options: RunOptions): NodeJS.ProcessEnv | undefined {
+  if (!options.minimalEnv) {
+    return spec.env ? { ...process.env, ...spec.env } : undefined;
+  }
+
+  const base: NodeJS.ProcessEnv = {};
+  for (const name of [...MINIMAL_ENV_ALLOWLIST, ...(options.envAllowlist ?? [])]) {
+    const value = process.env[name];
+    if (value !== undefined) base[name] = value;
+  }
+  return { ...base, ...spec.env };
+}
+
+/** Whether a process group still has members (signal 0 only checks). */
+function processGroupAlive(pid: number): boolean {
+  try {
+    process.kill(-pid, 0);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function signalChild(child: ChildProcess, signal: NodeJS.Signals, processGroup: boolean): void {
+  if (processGroup && child.pid !== undefined) {
+    try {
+      process.kill(-child.pid, signal);
+      return;
+    } catch {
+      // The group is gone (or was never created); fall back to the child.
+    }
+  }
+  child.kill(signal);
+}
+
+/**
+ * Stop an agent process: one signal, or with graceMs the SIGINT → SIGTERM
+ * → SIGKILL escalation, which ends early once the process (or with
+ * processGroup, every process in its group) has exited.
+ *
+ * Resolves when the escalation is over: everything exited, or SIGKILL was
+ * sent. Its timers do not keep this process alive, so a caller about to
+ * exit has to wait for it (and hold the event loop) itself.
+ */
+export function stopProcess(child: ChildProcess, options: StopOptions = {}): Promise<void> {
+  const processGroup = options.processGroup === true && child.pid !== undefined;
+  const alive = (): boolean => (child.exitCode === null && child.signalCode === null)
+    || (processGroup && processGroupAlive(child.pid!));
+  if (!alive()) return Promise.resolve();
+  if (options.graceMs === undefined) {
+    signalChild(child, options.signal ?? 'SIGTERM', processGroup);
+    return Promise.resolve();
+  }
+
+  const graceMs = options.graceMs;
+  return new Promise((resolve) => {
+    let timer: NodeJS.Timeout | undefined;
+    const escalate = (step: number): void => {
+      if (!alive()) {
+        resolve();
+        return;
+      }
+      signalChild(child, STOP_ESCALATION[step], processGroup);
+      if (step + 1 < STOP_ESCALATION.length) {
+        // Unref'd: a process group left behind must not keep this process alive.
+        timer = setTimeout(() => escalate(step + 1), graceMs).unref();
+      } else {
+        resolve();
+      }
+    };
+    if (!processGroup) {
+      child.once('exit', () => {
+        clearTimeout(timer);
+        resolve();
+      });
+    }
+    escalate(0);
+  });
+}
+
+/**
+ * Build options minus cwd, for harnesses that only get it as the process
+ * cwd. Paths relative to cwd are resolved first, so they do not fall back
+ * to this process's directory.
+ */
+function withoutCwd(options: RunOptions): RunOptions {
+  const cwd = options.cwd ?? '';
+  return {
+    ...options,
+    cwd: undefined,
+    additionalDirs: options.additionalDirs?.map((dir) => path.resolve(cwd, dir)),
+    attachments: options.attachments?.map((attachment) => (typeof attachment === 'string'
+      ? path.resolve(cwd, attachment)
+      : { ...attachment, path: path.resolve(cwd, attachment.path) })),
+  };
 }
 
 /**
@@ -679,28 +1161,48 @@ function createParser(harness: Harness): (json: unknown) => UnifiedAgentEvent[]
  *
  * For streaming output, pass onStdout/onStderr callbacks.
  * Without callbacks, stdout/stderr are inherited (pass through to parent).
+ * Temp files the command needed (spec.tempDir) are removed when it exits.
+ * timeoutMs and idleTimeoutMs stop the process (stopProcess, escalating;
+ * its process group when detached) when they run out.
  */
 export function runCommand(harness: string, options: RunOptions = {}): {
   child: ChildProcess;
   spec: CommandSpec;
   done: Promise<RunResult>;
 } {
-  const spec = buildCommand(harness, options);
+  // spawn() applies cwd itself, so it only needs to reach argv for
+  // harnesses with a cwd flag (keeps `strict` from rejecting it).
+  const spec = buildCommand(harness, getHarnessCapabilities(harness).cwdFlag ? options : withoutCwd(options));
   const [bin, ...args] = spec.argv;
 
-  const useCallbacks = options.onStdout || options.onStderr;
+  const watchIdle = options.idleTimeoutMs !== undefined;
+  const useCallbacks = options.onStdout || options.onStderr || watchIdle;
+
+  let child: ChildProcess;
+  try {
+    child = spawn(bin, args, {
+      cwd: options.cwd,
+      env: buildProcessEnv(spec, options),
+      detached: options.detached === true,
+      stdio: [
+        'pipe', // stdin: we control it
+        useCallbacks ? 'pipe' : 'inherit',
+        useCallbacks ? 'pipe' : 'inherit',
+      ],
+    });
+  } catch (err) {
+    // Nothing spawned, so no close event will remove the temp files.
+    cleanupCommandSpec(spec);
+    throw err;
+  }
 
-  const child = spawn(bin, args, {
-    cwd: options.cwd,
-    detached: options.detached === true,
-    stdio: [
-      'pipe', // stdin: we control it
-      useCallbacks ? 'pipe' : 'inherit',
-      useCallbacks ? 'pipe' : 'inherit',
-    ],
+  // Deliver prompt via stdin based on harness config. A CLI that exits
+  // without reading it breaks the pipe (EPIPE); done reports that when the
+  // exit is a failure (one that stops reading and still succeeds is fine).
+  let stdinError: Error | undefined;
+  child.stdin?.on('error', (err) => {
+    stdinError = err;
   });
-
-  // Deliver prompt via stdin based on harness config
   if (child.stdin) {
     if (spec.stdin === 'prompt' && spec.prompt) {
       child.stdin.write(spec.prompt);
@@ -712,14 +1214,55 @@ export function runCommand(harness: string, options: RunOptions = {}): {
 
   if (options.onStdout && child.stdout) {
     child.stdout.on('data', options.onStdout);
+  } else if (watchIdle && child.stdout) {
+    child.stdout.pipe(process.stdout, { end: false });
   }
   if (options.onStderr && child.stderr) {
     child.stderr.on('data', options.onStderr);
+  } else if (watchIdle && child.stderr) {
+    child.stderr.pipe(process.stderr, { end: false });
+  }
+
+  // Timeouts: the first limit to run out stops the process.
+  let timedOut: RunResult['timedOut'];
+  const expire = (limit: 'total' | 'idle'): void => {
+    if (timedOut || child.exitCode !== null || child.signalCode !== null) return;
+    timedOut = limit;
+    stopProcess(child, { graceMs: TIMEOUT_GRACE_MS, processGroup: options.detached === true });
+  };
+  const totalTimer = options.timeoutMs !== undefined
+    ? setTimeout(() => expire('total'), options.timeoutMs)
+    : undefined;
+  let idleTimer: NodeJS.Timeout | undefined;
+  const resetIdle = (): void => {
+    clearTimeout(idleTimer);
+    idleTimer = setTimeout(() => expire('idle'), options.idleTimeoutMs);
+  };
+  if (watchIdle) {
+    resetIdle();
+    child.stdout?.on('data', resetIdle);
+    child.stderr?.on('data', resetIdle);
   }
+  const clearTimers = (): void => {
+    clearTimeout(totalTimer);
+    clearTimeout(idleTimer);
+  };
 
   const done = new Promise<RunResult>((resolve, reject) => {
-    child.on('close', (code) => resolve({ exitCode: code, spec }));
-    child.on('error', reject);
+    child.on('close', (code) => {
+      clearTimers();
+      cleanupCommandSpec(spec);
+      if (stdinError && code !== 0) {
+        reject(new Error(`${harness} exited (code ${code}) before reading its stdin: ${stdinError.message}`));
+        return;
+      }
+      resolve({ exitCode: code, spec, ...(timedOut ? { timedOut } : {}) });
+    });
+    child.on('error', (err) => {
+      clearTimers();
+      cleanupCommandSpec(spec);
+      reject(err);
+    });
   });
 
   return { child, spec, done };
@@ -736,9 +1279,10 @@ export function runCommand(harness: string, options: RunOptions = {}): {
 export function executeCommand(request: ExecuteCommandRequest): ExecuteCommandHandle {
   const queue = createAsyncQueue<UnifiedAgentEvent>();
   const canonicalHarness = canonicalizeHarness(request.harness);
-  const yolo = request.yolo !== false;
+  // yolo (default true) and codex fullAuto are aliases of permission levels.
   const codexFullAuto = canonicalHarness === 'codex' && request.fullAuto === true;
-  const bypassPermissions = yolo && !(canonicalHarness === 'codex' && codexFullAuto);
+  const permissionLevel: PermissionLevel | undefined = request.permissionLevel
+    ?? (codexFullAuto ? 'workspace-write' : request.yolo !== false ? 'full' : undefined);
   const requestedSessionId = request.resumeSessionId ?? request.sessionId;
   const initialSessionId = requestedSessionId ?? null;
   let resolvedSessionId = requestedSessionId ?? '';
@@ -750,34 +1294,107 @@ export function executeCommand(request: ExecuteCommandRequest): ExecuteCommandHa
   let stderrBuffer = '';
   let debugStderrTrailing = '';
   const parse = createParser(canonicalHarness);
+  // Text-protocol harnesses (aider) get raw lines instead of parsed JSON.
+  const textStream = getHarness(request.harness).stdout === 'text';
 
   let resolveSessionId!: (value: string) => void;
   const sessionId = new Promise<string>((resolve) => {
     resolveSessionId = resolve;
   });
 
+  // Structured output: native flag where the harness has one, prompt instructions elsewhere.
+  const nativeOutputSchema = !!request.outputSchema && getHarnessCapabilities(request.harness).outputSchema;
+  let answerText = '';
+  let structuredOutput: { value: unknown } | undefined;
+  let output: unknown;
+
+  // Probed lazily: only harnesses with version-gated flags pay for it.
+  const cliVersion = (): string | null => request.cliVersion ?? detectVersion(getHarness(request.harness).binary);
+
   const buildOptions: BuildOptions = {
     model: request.model,
-    prompt: request.prompt,
+    prompt: request.outputSchema && !nativeOutputSchema
+      ? `${request.prompt}\n\n${outputSchemaInstructions(request.outputSchema)}`
+      : request.prompt,
     sessionId: initialSessionId ?? undefined,
     resume: !!request.resumeSessionId,
+    forkFromSessionId: request.forkFromSessionId,
     cwd: request.cwd,
-    bypassPermissions,
+    additionalDirs: request.additionalDirs,
+    maxTurns: request.maxTurns,
+    permissionLevel,
+    systemPrompt: request.systemPrompt,
+    appendSystemPrompt: request.appendSystemPrompt,
+    allowedTools: request.allowedTools,
+    disallowedTools: request.disallowedTools,
+    mcpServers: request.mcpServers,
+    attachments: request.attachments,
+    outputSchema: nativeOutputSchema ? request.outputSchema : undefined,
+    env: request.env,
+    cliVersion: request.cliVersion,
     extraArgs: [
-      ...buildModeExtraArgs(canonicalHarness, request.mode, yolo, request.cwd, codexFullAuto),
+      ...buildModeExtraArgs(
+        canonicalHarness, request.mode, permissionLevel, request.cwd, cliVersion, !!request.allowedTools?.length
+      ),
       ...(request.extraArgs ?? []),
     ],
   };
-  if (canonicalHarness === 'codex' && request.reasoningEffort) {
+  if (request.reasoningEffort) {
     buildOptions.reasoning = request.reasoningEffort;
   }
 
+  // Tool-call budget enforced here: maxSteps, plus maxTurns on harnesses
+  // without a native turn limit. Going past it stops the process.
+  const turnLimit = getHarnessCapabilities(request.harness).maxTurns ? undefined : request.maxTurns;
+  const toolUseLimits = [request.maxSteps, turnLimit].filter((limit) => limit !== undefined);
+  const toolUseLimit = toolUseLimits.length > 0 ? Math.min(...toolUseLimits) : undefined;
+  let toolUses = 0;
+  const countedCalls = new Set<string>();
+
+  // The answer is the text after the last tool call; a mismatch turns success into invalid_output.
+  const acceptOutput = (schema: JsonSchema): boolean => {
+    const answer = structuredOutput ?? extractJson(answerText);
+    if (!answer) {
+      emit({ type: 'error', message: `${request.harness} answer is not JSON (outputSchema)` });
+      return false;
+    }
+    const problems = validateJsonSchema(answer.value, schema);
+    if (problems.length > 0) {
+      emit({ type: 'error', message: `${request.harness} answer does not match outputSchema: ${problems.join('; ')}` });
+      return false;
+    }
+    output = answer.value;
+    return true;
+  };
+
   const emit = (event: UnifiedAgentEvent): void => {
+    // Each call counts once: later events for a counted callId pass through.
+    if (event.type === 'tool.use' && toolUseLimit !== undefined
+      && !(event.callId !== undefined && countedCalls.has(event.callId))) {
+      // Calls past the budget are dropped, including any still buffered after the stop.
+      if (toolUses >= toolUseLimit) {
+        if (!completeEventSeen) {
+          emit({ type: 'error', message: `${request.harness} went past its budget of ${toolUseLimit} tool calls` });
+          emit({ type: 'turn.complete', reason: 'max_turns' });
+          stop();
+        }
+        return;
+      }
+      toolUses += 1;
+      if (event.callId !== undefined) countedCalls.add(event.callId);
+    }
     if (event.type === 'turn.started') {
       if (turnStartedSeen) return;
       turnStartedSeen = true;
+    } else if (event.type === 'text.delta') {
+      answerText += event.text;
+    } else if (event.type === 'tool.use') {
+      answerText = '';
     } else if (event.type === 'turn.complete') {
       if (completeEventSeen) return;
+      if (event.reason === 'success' && request.outputSchema && !acceptOutput(request.outputSchema)) {
+        event = { type: 'turn.complete', reason: 'invalid_output' };
+      }
       completeEventSeen = true;
       completionReason = event.reason;
     } else if (event.type === 'out_of_tokens') {
@@ -819,6 +1436,13 @@ export function executeCommand(request: ExecuteCommandRequest): ExecuteCommandHa
     }
 
     for (const line of lines) {
+      if (textStream) {
+        for (const event of parse(line.replace(/\r$/, ''))) {
+          emit(event);
+        }
+        continue;
+      }
+
       const trimmed = line.trim();
       if (!trimmed) continue;
 
@@ -834,6 +1458,7 @@ export function executeCommand(request: ExecuteCommandRequest): ExecuteCommandHa
       }
 
       maybeUpdateSession(json);
+      structuredOutput = captureStructuredOutput(canonicalHarness, json) ?? structuredOutput;
       for (const event of parse(json)) {
         emit(event);
       }
@@ -849,13 +1474,33 @@ export function executeCommand(request: ExecuteCommandRequest): ExecuteCommandHa
     stderrBuffer += text;
   };
 
+  // Claude takes images as stream-json input, which it only accepts with
+  // stream-json output; single-shot mode reads plain text.
+  const images = splitAttachments(request.attachments ?? [], request.cwd).images;
+  if (request.mode === 'single-shot' && images.length > 0 && protocolOf(canonicalHarness) === 'claude'
+    && !getHarnessRuntime(canonicalHarness)?.modeExtraArgs) {
+    throw new Error(`${request.harness} cannot take image attachments in single-shot mode; use conversation mode`);
+  }
+
   const { child, spec, done } = runCommand(request.harness, {
     ...buildOptions,
     detached: request.detached === true,
+    minimalEnv: request.minimalEnv === true,
+    envAllowlist: request.envAllowlist,
+    timeoutMs: request.timeoutMs,
+    idleTimeoutMs: request.idleTimeoutMs,
     onStdout,
     onStderr,
   });
 
+  function stop(options?: NodeJS.Signals | StopOptions): Promise<void> {
+    stopRequested = true;
+    return stopProcess(child, {
+      processGroup: request.detached === true,
+      ...(typeof options === 'string' ? { signal: options } : options),
+    });
+  }
+
   if (request.detached === true) {
     child.unref();
   }
@@ -865,9 +1510,40 @@ export function executeCommand(request: ExecuteCommandRequest): ExecuteCommandHa
   }
   emit({ type: 'turn.started' });
 
+  // Report options the harness cannot honor instead of silently dropping them.
+  const unsupported = validateBuildOptions(request.harness, {
+    reasoning: buildOptions.reasoning,
+    systemPrompt: buildOptions.systemPrompt,
+    appendSystemPrompt: buildOptions.appendSystemPrompt,
+    allowedTools: buildOptions.allowedTools,
+    disallowedTools: buildOptions.disallowedTools,
+    mcpServers: buildOptions.mcpServers,
+    additionalDirs: buildOptions.additionalDirs,
+    // Only an explicit level: the yolo default is best effort.
+    permissionLevel: request.permissionLevel,
+  });
+  for (const issue of unsupported) {
+    emit({ type: 'warning', message: issue.message });
+  }
+
   const completed = done
-    .then(({ exitCode, spec: doneSpec }) => {
-      if (request.mode === 'conversation') {
+    .then(({ exitCode, spec: doneSpec, timedOut }) => {
+      if (request.mode === 'conversation' && textStream) {
+        if (stdoutBuffer) {
+          if (request.debugRawEvents) {
+            process.stderr.write(`[agent-cli raw ${request.harness} stdout] ${stdoutBuffer.replace(/\r$/, '')}\n`);
+          }
+          for (const event of parse(stdoutBuffer.replace(/\r$/, ''))) {
+            emit(event);
+          }
+        }
+        // No terminal event in a text protocol: a clean exit ends the turn.
+        if (exitCode === 0 && !stopRequested) {
+          for (const event of parse(null)) {
+            emit(event);
+          }
+        }
+      } else if (request.mode === 'conversation') {
         const trailing = stdoutBuffer.trim();
         if (trailing) {
           if (request.debugRawEvents) {
@@ -876,6 +1552,7 @@ export function executeCommand(request: ExecuteCommandRequest): ExecuteCommandHa
           try {
             const json = JSON.parse(trailing) as unknown;
             maybeUpdateSession(json);
+            structuredOutput = captureStructuredOutput(canonicalHarness, json) ?? structuredOutput;
             for (const event of parse(json)) {
               emit(event);
             }
@@ -894,7 +1571,15 @@ export function executeCommand(request: ExecuteCommandRequest): ExecuteCommandHa
 
       let finalReason = completionReason;
       if (!completeEventSeen) {
-        if (stopRequested || exitCode === null) {
+        if (timedOut) {
+          finalReason = 'timeout';
+          emit({
+            type: 'error',
+            message: timedOut === 'total'
+              ? `${request.harness} timed out after ${request.timeoutMs}ms (timeoutMs)`
+              : `${request.harness} produced no output for ${request.idleTimeoutMs}ms (idleTimeoutMs)`,
+          });
+        } else if (stopRequested || exitCode === null) {
           finalReason = 'killed';
         } else if (completionReason !== 'success') {
           finalReason = completionReason;
@@ -925,10 +1610,12 @@ export function executeCommand(request: ExecuteCommandRequest): ExecuteCommandHa
       queue.close();
       resolveSessionId(resolvedSessionId);
       return {
-        reason: finalReason,
+        // The terminal event's reason, after the outputSchema check
+        reason: completionReason,
         exitCode,
         sessionId: resolvedSessionId,
         spec: doneSpec,
+        ...(output !== undefined ? { output } : {}),
       };
     })
     .catch((err) => {
@@ -948,12 +1635,7 @@ export function executeCommand(request: ExecuteCommandRequest): ExecuteCommandHa
     events: queue.iterator,
     sessionId,
     completed,
-    stop: (signal?: NodeJS.Signals) => {
-      stopRequested = true;
-      if (child.exitCode === null && !child.killed) {
-        child.kill(signal);
-      }
-    },
+    stop,
   };
 }
 
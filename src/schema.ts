@@ -0,0 +1,224 @@
+import type { JsonSchema } from './types';
+
+/** Prompt text asking a harness without native structured output for a JSON answer. */
+export function outputSchemaInstructions(schema: JsonSchema): string {
+  return [
+    'Reply with a single JSON value that matches this JSON Schema, and nothing else:',
+    '```json',
+    JSON.stringify(schema, null, 2),
+    '```',
+  ].join('\n');
+}
+
+/**
+ * Find the JSON value in an agent's answer: the whole text, else the last
+ * fenced code block that parses, else the outermost {...} or [...] span.
+ * Returns undefined when nothing parses.
+ */
+export function extractJson(text: string): { value: unknown } | undefined {
+  const fenced = [...text.matchAll(/```[\w-]*[ \t]*\n([\s\S]*?)```/g)].map((match) => match[1]).reverse();
+  const spans = [['{', '}'], ['[', ']']].flatMap(([open, close]) => {
+    const start = text.indexOf(open);
+    const end = text.lastIndexOf(close);
+    return start >= 0 && end > start ? [text.slice(start, end + 1)] : [];
+  });
+  for (const candidate of [text, ...fenced, ...spans]) {
+    if (!candidate.trim()) continue;
+    try {
+      return { value: JSON.parse(candidate) as unknown };
+    } catch {
+      // try the next candidate
+    }
+  }
+  return undefined;
+}
+
+/** JSON Schema type name of a value ('integer' for whole numbers). */
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number' && Number.isInteger(value)) return 'integer';
+  return typeof value;
+}
+
+function sameJson(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+  const aKeys = Object.keys(a);
+  const bKeys = Object.keys(b);
+  return aKeys.length === bKeys.length && aKeys.every((key) =>
+    Object.hasOwn(b, key) && sameJson((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key]));
+}
+
+function asSchema(value: unknown): JsonSchema | boolean | undefined {
+  return typeof value === 'boolean' || (typeof value === 'object' && value !== null && !Array.isArray(value))
+    ? value as JsonSchema | boolean
+    : undefined;
+}
+
+function childPath(at: string, key: string | number): string {
+  if (typeof key === 'number') return `${at}[${key}]`;
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? `${at}.${key}` : `${at}[${JSON.stringify(key)}]`;
+}
+
+/** Resolve a local reference (#/$defs/name) against the root schema. */
+function resolveRef(root: JsonSchema, ref: string): JsonSchema | boolean | undefined {
+  if (!ref.startsWith('#')) return undefined;
+  let target: unknown = root;
+  for (const part of ref.slice(1).split('/').filter(Boolean)) {
+    const key = decodeURIComponent(part).replace(/~1/g, '/').replace(/~0/g, '~');
+    target = typeof target === 'object' && target !== null ? (target as Record<string, unknown>)[key] : undefined;
+  }
+  return asSchema(target);
+}
+
+/**
+ * Check a value against a JSON Schema. Covers the keywords structured
+ * output schemas use: type, enum, const, properties, required,
+ * additionalProperties, items (and tuple items), length, size and range
+ * limits, pattern, allOf/anyOf/oneOf/not and local $ref. Other keywords
+ * are ignored.
+ *
+ * Returns one message per problem (`$.items[2].name: expected string,
+ * got number`); empty when the value matches.
+ */
+export function validateJsonSchema(value: unknown, schema: JsonSchema): string[] {
+  const problems: string[] = [];
+  check(value, schema, '$', schema, problems, new Set());
+  return problems;
+}
+
+/** Test a string against a pattern; undefined when the pattern is not a valid regex. */
+function matchesPattern(pattern: string, value: string): boolean | undefined {
+  try {
+    return new RegExp(pattern, 'u').test(value);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * `refs` holds the references already followed for this value, so a
+ * reference back to itself ({"$ref": "#"}) is reported instead of
+ * recursing forever. Checks of child values start with an empty set.
+ */
+function check(
+  value: unknown,
+  schema: JsonSchema | boolean,
+  at: string,
+  root: JsonSchema,
+  problems: string[],
+  refs: ReadonlySet<string>
+): void {
+  if (schema === true) return;
+  if (schema === false) {
+    problems.push(`${at}: not allowed`);
+    return;
+  }
+
+  if (typeof schema.$ref === 'string') {
+    const target = resolveRef(root, schema.$ref);
+    if (target === undefined) problems.push(`${at}: cannot resolve ${schema.$ref}`);
+    else if (refs.has(schema.$ref)) problems.push(`${at}: circular ${schema.$ref}`);
+    else check(value, target, at, root, problems, new Set(refs).add(schema.$ref));
+  }
+
+  const actual = typeOf(value);
+  if (schema.type !== undefined) {
+    const types = (Array.isArray(schema.type) ? schema.type : [schema.type]) as string[];
+    if (!types.some((type) => type === actual || (type === 'number' && actual === 'integer'))) {
+      problems.push(`${at}: expected ${types.join(' or ')}, got ${actual}`);
+      return;
+    }
+  }
+  if (Array.isArray(schema.enum) && !schema.enum.some((option) => sameJson(option, value))) {
+    problems.push(`${at}: expected one of ${schema.enum.map((option) => JSON.stringify(option)).join(', ')}`);
+  }
+  if ('const' in schema && !sameJson(schema.const, value)) {
+    problems.push(`${at}: expected ${JSON.stringify(schema.const)}`);
+  }
+
+  if (typeof value === 'string') {
+    const length = [...value].length;
+    if (typeof schema.minLength === 'number' && length < schema.minLength) {
+      problems.push(`${at}: shorter than ${schema.minLength} characters`);
+    }
+    if (typeof schema.maxLength === 'number' && length > schema.maxLength) {
+      problems.push(`${at}: longer than ${schema.maxLength} characters`);
+    }
+    if (typeof schema.pattern === 'string') {
+      const matched = matchesPattern(schema.pattern, value);
+      if (matched === undefined) problems.push(`${at}: invalid pattern /${schema.pattern}/`);
+      else if (!matched) problems.push(`${at}: does not match /${schema.pattern}/`);
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (typeof schema.minimum === 'number' && value < schema.minimum) problems.push(`${at}: less than ${schema.minimum}`);
+    if (typeof schema.maximum === 'number' && value > schema.maximum) problems.push(`${at}: more than ${schema.maximum}`);
+    if (typeof schema.exclusiveMinimum === 'number' && value <= schema.exclusiveMinimum) {
+      problems.push(`${at}: not more than ${schema.exclusiveMinimum}`);
+    }
+    if (typeof schema.exclusiveMaximum === 'number' && value >= schema.exclusiveMaximum) {
+      problems.push(`${at}: not less than ${schema.exclusiveMaximum}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (typeof schema.minItems === 'number' && value.length < schema.minItems) {
+      problems.push(`${at}: fewer than ${schema.minItems} items`);
+    }
+    if (typeof schema.maxItems === 'number' && value.length > schema.maxItems) {
+      problems.push(`${at}: more than ${schema.maxItems} items`);
+    }
+    // Tuple schemas: prefixItems (2020-12) or an items array (draft-07).
+    const tuple = Array.isArray(schema.prefixItems) ? schema.prefixItems : Array.isArray(schema.items) ? schema.items : [];
+    const rest = asSchema(Array.isArray(schema.items) ? schema.additionalItems : schema.items);
+    value.forEach((item, i) => {
+      const itemSchema = i < tuple.length ? asSchema(tuple[i]) : rest;
+      if (itemSchema !== undefined) check(item, itemSchema, childPath(at, i), root, problems, new Set());
+    });
+  }
+
+  if (actual === 'object') {
+    const object = value as Record<string, unknown>;
+    const properties = typeof schema.properties === 'object' && schema.properties !== null
+      ? schema.properties as Record<string, unknown>
+      : {};
+    if (Array.isArray(schema.required)) {
+      for (const key of schema.required as string[]) {
+        if (!Object.hasOwn(object, key)) problems.push(`${childPath(at, key)}: required`);
+      }
+    }
+    const additional = asSchema(schema.additionalProperties);
+    for (const [key, item] of Object.entries(object)) {
+      const propertySchema = Object.hasOwn(properties, key) ? asSchema(properties[key]) : additional;
+      if (propertySchema !== undefined) check(item, propertySchema, childPath(at, key), root, problems, new Set());
+    }
+  }
+
+  const matches = (option: unknown): boolean => {
+    const optionSchema = asSchema(option);
+    if (optionSchema === undefined) return true;
+    const found: string[] = [];
+    check(value, optionSchema, at, root, found, refs);
+    return found.length === 0;
+  };
+  if (Array.isArray(schema.allOf)) {
+    for (const option of schema.allOf) {
+      const optionSchema = asSchema(option);
+      if (optionSchema !== undefined) check(value, optionSchema, at, root, problems, refs);
+    }
+  }
+  if (Array.isArray(schema.anyOf) && !schema.anyOf.some(matches)) {
+    problems.push(`${at}: matches none of the anyOf schemas`);
+  }
+  if (Array.isArray(schema.oneOf)) {
+    const count = schema.oneOf.filter(matches).length;
+    if (count !== 1) problems.push(`${at}: matches ${count} of the oneOf schemas (expected exactly 1)`);
+  }
+  if ('not' in schema && asSchema(schema.not) !== undefined && matches(schema.not)) {
+    problems.push(`${at}: matches a schema it must not`);
+  }
+}
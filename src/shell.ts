@@ -0,0 +1,60 @@
+import type { CommandSpec, ExplainedCommand } from './types';
+
+/** Options for renderShellCommand. */
+export interface ShellRenderOptions {
+  /** Variables to set besides spec.env (e.g. what the caller adds at spawn) */
+  readonly env?: Readonly<Record<string, string>>;
+  /** Directory to run in (`cd <dir> && ...`) */
+  readonly cwd?: string;
+  /** File to redirect stdin from, instead of the spec's stdin behavior */
+  readonly stdinFile?: string;
+}
+
+/**
+ * Words that never need quoting in a POSIX shell (or zsh, which expands
+ * a leading `=cmd` to the path of cmd, so `=` only counts after the start).
+ */
+const SAFE_WORD = /^[A-Za-z0-9_@%+:,./-][A-Za-z0-9_@%+=:,./-]*$/;
+
+/**
+ * Quote one word for a POSIX shell: safe words stay bare, everything else
+ * goes in single quotes (a single quote itself becomes '\'').
+ */
+export function shellQuote(word: string): string {
+  if (SAFE_WORD.test(word)) return word;
+  return `'${word.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * Render a CommandSpec as one POSIX shell line that reproduces the spawn:
+ * env assignments, argv, and stdin as the spec asks (the prompt piped in
+ * for 'prompt', /dev/null for 'close', untouched for 'pipe').
+ */
+export function renderShellCommand(spec: CommandSpec, options: ShellRenderOptions = {}): string {
+  const env = Object.entries({ ...spec.env, ...options.env }).map(([name, value]) => `${name}=${shellQuote(value)}`);
+  let line = [...env, ...spec.argv.map(shellQuote)].join(' ');
+  if (options.stdinFile) {
+    line += ` < ${shellQuote(options.stdinFile)}`;
+  } else if (spec.stdin === 'prompt' && spec.prompt) {
+    line = `printf '%s' ${shellQuote(spec.prompt)} | ${line}`;
+  } else if (spec.stdin !== 'pipe') {
+    line += ' < /dev/null';
+  }
+  return options.cwd ? `cd ${shellQuote(options.cwd)} && ${line}` : line;
+}
+
+/**
+ * Annotate an explained command for reading: env assignments, then one
+ * line per argv segment with the build step that produced it, then how
+ * stdin is used.
+ */
+export function renderExplanation({ spec, segments }: ExplainedCommand): string {
+  const rows: Array<[string, string]> = [
+    ...Object.entries(spec.env ?? {}).map(([name, value]): [string, string] => [`${name}=${shellQuote(value)}`, 'env']),
+    ...segments.map((segment): [string, string] => [segment.args.map(shellQuote).join(' '), segment.step]),
+  ];
+  const width = Math.min(Math.max(0, ...rows.map(([text]) => text.length)), 60);
+  const lines = rows.map(([text, step]) => `${text.padEnd(width)}  # ${step}`);
+  lines.push(`# stdin: ${spec.stdin}`);
+  return lines.join('\n');
+}
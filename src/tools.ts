@@ -0,0 +1,44 @@
+import type { ToolCategory, ToolName } from './types';
+
+/** The shared tool categories. */
+export const TOOL_CATEGORIES: readonly ToolCategory[] = ['shell', 'edit', 'read', 'web'];
+
+export function isToolCategory(name: string): name is ToolCategory {
+  return TOOL_CATEGORIES.includes(name as ToolCategory);
+}
+
+/** The server of an `mcp:<server>` tool name, or undefined for other names. */
+export function mcpServerOf(name: ToolName): string | undefined {
+  return name.startsWith('mcp:') && name.length > 4 ? name.slice(4) : undefined;
+}
+
+/** Whether tool lists take a category away: denied outright, or left out of a non-empty allowlist. */
+export function deniesCategory(
+  category: ToolCategory,
+  allowedTools: readonly ToolName[] = [],
+  disallowedTools: readonly ToolName[] = []
+): boolean {
+  return disallowedTools.includes(category) || (allowedTools.length > 0 && !allowedTools.includes(category));
+}
+
+/** How a harness names the tools behind each shared category and MCP server. */
+export interface ToolVocabulary {
+  readonly categories: Readonly<Record<ToolCategory, readonly string[]>>;
+  readonly mcp: (server: string) => string;
+}
+
+/**
+ * Translate a tool list into a harness's own names.
+ *
+ * Categories expand to the vocabulary's tools, `mcp:<server>` goes through
+ * vocabulary.mcp, and anything else is a harness-native name that passes
+ * through unchanged. Duplicates are dropped; order is kept.
+ */
+export function mapToolNames(tools: readonly ToolName[], vocabulary: ToolVocabulary): string[] {
+  const names = tools.flatMap((tool) => {
+    if (isToolCategory(tool)) return vocabulary.categories[tool];
+    const server = mcpServerOf(tool);
+    return server ? [vocabulary.mcp(server)] : [tool];
+  });
+  return [...new Set(names)];
+}
@@ -6,14 +6,31 @@
  * The build function reads these configs to assemble argv deterministically.
  */
 
+import type { TurnMode, UnifiedAgentEvent } from './run';
+
 // =============================================================================
 // Sum type: supported CLI agents
 // =============================================================================
 
-/** Adding a harness = adding one entry here + one config in harnesses/ */
-export type Harness = 'claude' | 'codex' | 'opencode' | 'gemini';
+/** Stream protocols executeCommand knows how to parse (one parser each in run.ts). */
+export type HarnessProtocol = 'claude' | 'codex' | 'opencode' | 'gemini' | 'aider' | 'cursor-agent';
+
+/**
+ * Adding a harness = adding one entry here + one config in harnesses/.
+ * Forks that speak an existing protocol (qwen → gemini) need no new parser.
+ */
+export type Harness = HarnessProtocol | 'qwen';
 export type GeminiAlias = `gemini${number}`;
-export type HarnessName = Harness | GeminiAlias;
+
+/**
+ * Name of a harness added at runtime via registerHarness().
+ * `string & {}` keeps editor completion for the built-in names.
+ */
+export type RegisteredHarness = string & {};
+
+/** Named profile of a harness: `<harness>@<profile>` (e.g. `claude@work`). */
+export type HarnessProfileName = `${string}@${string}`;
+export type HarnessName = Harness | GeminiAlias | HarnessProfileName | RegisteredHarness;
 
 // =============================================================================
 // Prompt & stdin behavior
@@ -25,8 +42,9 @@ export type HarnessName = Harness | GeminiAlias;
  * flag:     Value of a named flag (e.g. `-p "prompt"`)
  * cli-arg:  Last positional argument (e.g. `opencode run "prompt"`)
  * cli-sep:  After a separator (e.g. `codex exec -- "prompt"`)
+ * file:     Temp file whose path follows promptFileFlag (e.g. `aider --message-file <path>`)
  */
-export type PromptDelivery = 'flag' | 'cli-arg' | 'cli-sep';
+export type PromptDelivery = 'flag' | 'cli-arg' | 'cli-sep' | 'file';
 
 /**
  * What the caller should do with process stdin after spawning.
@@ -47,12 +65,225 @@ export type StdinBehavior = 'close' | 'prompt' | 'pipe';
  * generation tasks. Disk should be treated as a persistence/rehydration layer,
  * while stdout is the live interaction layer.
  *
- * jsonl:    Stream of JSON lines (claude, codex, opencode, gemini)
- * text:     Plain text output (single-shot mode)
+ * jsonl:    Stream of JSON lines (claude, codex, opencode, gemini, cursor-agent)
+ * text:     Plain text output (single-shot mode, or harnesses like aider
+ *           whose conversation output is parsed line by line)
  * ignore:   Output is irrelevant or handled out-of-band
  */
 export type StdoutBehavior = 'jsonl' | 'text' | 'ignore';
 
+// =============================================================================
+// Reasoning effort — one scale for every harness
+// =============================================================================
+
+/**
+ * Shared effort scale, lowest to highest. Each harness maps it onto its
+ * own control (codex reasoning effort, Claude thinking budget, OpenCode
+ * variants, aider --reasoning-effort).
+ */
+export type ReasoningEffort = 'minimal' | 'low' | 'medium' | 'high' | 'xhigh' | 'max';
+
+/**
+ * Shared permission policy, most to least restricted:
+ * - read-only: may read and answer, no edits or commands
+ * - plan: read-only, framed as planning (the CLI's plan mode where it has one)
+ * - workspace-write: edits inside the workspace without prompts
+ * - full: no prompts and no sandbox (what bypassPermissions/yolo mean)
+ */
+export type PermissionLevel = 'read-only' | 'plan' | 'workspace-write' | 'full';
+
+// =============================================================================
+// Vendor CLI versions
+// =============================================================================
+
+/** Vendor CLI version bounds: `min` inclusive, `max` exclusive (e.g. { min: '1.0.86' }). */
+export interface VersionRange {
+  readonly min?: string;
+  readonly max?: string;
+}
+
+/** Args emitted only when the installed CLI version is in range. */
+export interface VersionedArgs extends VersionRange {
+  readonly args: readonly string[];
+}
+
+// =============================================================================
+// Harness capabilities — what agent-cli can pass to each CLI
+// =============================================================================
+
+/**
+ * Which BuildOptions a harness can actually honor.
+ *
+ * Describes what agent-cli knows how to pass to the CLI, not everything the
+ * vendor CLI can do. validateBuildOptions() reads this to report options
+ * that would otherwise be dropped silently.
+ */
+export interface HarnessCapabilities {
+  /** Resume an existing session (sessionResumeFlags) */
+  readonly resume: boolean;
+  /** Session IDs must start with this prefix to be resumed (e.g. OpenCode's 'ses_') */
+  readonly resumeIdPrefix?: string;
+  /** Start a new session with a caller-chosen ID (sessionCreateFlags) */
+  readonly sessionCreate: boolean;
+  /** Branch a new session off an existing one (sessionForkFlags) */
+  readonly fork: boolean;
+  /** Reasoning/effort level (reasoningFlags) */
+  readonly reasoning: boolean;
+  /** Native turn limit (maxTurnsFlags); executeCommand enforces it otherwise */
+  readonly maxTurns: boolean;
+  /** Permission prompt bypass: the 'full' permission level (non-empty bypassFlags) */
+  readonly bypass: boolean;
+  /** Permission levels the harness maps (permissionArgs, plus bypassFlags for 'full') */
+  readonly permissionLevels: readonly PermissionLevel[];
+  /** Working directory as a CLI flag; otherwise only the process cwd applies */
+  readonly cwdFlag: boolean;
+  /** Directories outside the working directory (BuildOptions.additionalDirs) */
+  readonly additionalDirs: boolean;
+  /** Image attachments (imageArgs); text attachments work everywhere */
+  readonly images: boolean;
+  /** Replacement system prompt (BuildOptions.systemPrompt) */
+  readonly systemPrompt: boolean;
+  /** Instructions appended to the default system prompt (BuildOptions.appendSystemPrompt) */
+  readonly appendSystemPrompt: boolean;
+  /** Tool allow/deny lists (BuildOptions.allowedTools/disallowedTools) */
+  readonly toolFilter: boolean;
+  /** Per-run MCP servers (BuildOptions.mcpServers) */
+  readonly mcp: boolean;
+  /** Native structured output (outputSchemaArgs); executeCommand falls back to prompt instructions */
+  readonly outputSchema: boolean;
+  /** Structured event stream in conversation mode (vs. parsed plain text) */
+  readonly streaming: boolean;
+}
+
+// =============================================================================
+// Option delivery — what HarnessConfig hooks hand back to buildCommand
+// =============================================================================
+
+/** Passed to every option hook (systemPromptArgs, toolArgs, mcpArgs, imageArgs, outputSchemaArgs). */
+export interface OptionContext {
+  /**
+   * Write content to a temp file for CLIs that only accept a path.
+   * Returns the absolute path; the file lives in CommandSpec.tempDir.
+   */
+  readonly writeFile: (name: string, content: string) => string;
+}
+
+/** Args, env and inline config that deliver an option to a CLI. */
+export interface OptionDelivery {
+  readonly args?: readonly string[];
+  readonly env?: Readonly<Record<string, string>>;
+  /**
+   * Fragment of the CLI's JSON config. Fragments from all hooks are
+   * deep-merged and passed in HarnessConfig.inlineConfigEnv (or a
+   * settingsFileEnv file).
+   */
+  readonly inlineConfig?: Readonly<Record<string, unknown>>;
+}
+
+// =============================================================================
+// System prompts — role instructions kept out of the user prompt
+// =============================================================================
+
+/** Input to HarnessConfig.systemPromptArgs. */
+export interface SystemPromptContext extends OptionContext {
+  /** Replacement system prompt, if requested */
+  readonly systemPrompt?: string;
+  /** Instructions appended to the harness's default system prompt, if requested */
+  readonly appendSystemPrompt?: string;
+}
+
+// =============================================================================
+// Tools — a common vocabulary for allow/deny lists
+// =============================================================================
+
+/** Built-in tool groups every harness maps onto its own tool names. */
+export type ToolCategory = 'shell' | 'edit' | 'read' | 'web';
+
+/**
+ * A tool in an allow/deny list: a shared category, `mcp:<server>` for all
+ * tools of an MCP server, or a harness-native tool name (passed through).
+ */
+export type ToolName = ToolCategory | `mcp:${string}` | (string & {});
+
+/** Input to HarnessConfig.toolArgs. */
+export interface ToolFilterContext extends OptionContext {
+  /** Only these tools may be used, if set */
+  readonly allowedTools?: readonly ToolName[];
+  /** These tools may not be used, if set */
+  readonly disallowedTools?: readonly ToolName[];
+}
+
+// =============================================================================
+// MCP servers — per-run tool servers wired into each CLI's config
+// =============================================================================
+
+/** An MCP server the agent runs locally over stdio. */
+export interface McpStdioServer {
+  readonly command: string;
+  readonly args?: readonly string[];
+  readonly env?: Readonly<Record<string, string>>;
+}
+
+/** A remote MCP server reached over HTTP. */
+export interface McpHttpServer {
+  readonly url: string;
+  readonly headers?: Readonly<Record<string, string>>;
+}
+
+export type McpServer = McpStdioServer | McpHttpServer;
+
+/** Input to HarnessConfig.mcpArgs. */
+export interface McpContext extends OptionContext {
+  /** Server name → server */
+  readonly servers: Readonly<Record<string, McpServer>>;
+}
+
+// =============================================================================
+// Structured output — a JSON answer checked against a schema
+// =============================================================================
+
+/** A JSON Schema document (draft 2020-12 / draft-07 keywords). */
+export type JsonSchema = { readonly [keyword: string]: unknown };
+
+/** Input to HarnessConfig.outputSchemaArgs. */
+export interface OutputSchemaContext extends OptionContext {
+  /** Schema the final answer must match */
+  readonly schema: JsonSchema;
+}
+
+// =============================================================================
+// Attachments — images for the model, text files inlined into the prompt
+// =============================================================================
+
+/** 'image' goes to the harness; 'text' is inlined into the prompt. */
+export type AttachmentKind = 'image' | 'text';
+
+/**
+ * A file to send with the prompt: a path (kind from the extension, images
+ * being png/jpg/jpeg/gif/webp) or a path with an explicit kind.
+ */
+export type Attachment = string | { readonly path: string; readonly kind?: AttachmentKind };
+
+/** An image attachment, resolved to an absolute path. */
+export interface ImageAttachment {
+  readonly path: string;
+  /** e.g. 'image/png' */
+  readonly mediaType: string;
+}
+
+/** Input to HarnessConfig.imageArgs. */
+export interface ImageContext extends OptionContext {
+  readonly images: readonly ImageAttachment[];
+  /** Prompt text, with text attachments already inlined */
+  readonly prompt: string;
+}
+
+/** OptionDelivery that may also rewrite the prompt (e.g. `@file` references). */
+export interface ImageDelivery extends OptionDelivery {
+  /** Replacement prompt (delivered the usual way: argv or stdin) */
+  readonly prompt?: string;
+}
+
 // =============================================================================
 // Harness config — pure data describing CLI syntax
 // =============================================================================
@@ -72,7 +303,7 @@ export interface HarnessConfig {
   /** Subcommand(s) after binary (e.g. ['exec'] for codex, [] for claude) */
   readonly baseCmd: readonly string[];
 
-  /** Flags to bypass all confirmation prompts */
+  /** Flags to bypass all confirmation prompts (permission level 'full') */
   readonly bypassFlags: readonly string[];
 
   /** Flag name for model selection (e.g. '--model' or '-m') */
@@ -87,6 +318,16 @@ export interface HarnessConfig {
   /** Separator when promptVia is 'cli-sep' (e.g. '--') */
   readonly promptSep?: string;
 
+  /** Flag taking the prompt file path for 'file' delivery (e.g. '--message-file') */
+  readonly promptFileFlag?: string;
+
+  /**
+   * Delivery for prompts too large for argv (over MAX_ARGV_PROMPT_BYTES):
+   * 'stdin' writes them to stdin (spec.stdin becomes 'prompt'), 'file'
+   * passes a temp file. Unset: the prompt stays in argv.
+   */
+  readonly largePromptVia?: 'stdin' | 'file';
+
   /** What the caller should do with process stdin */
   readonly stdin: StdinBehavior;
 
@@ -96,9 +337,28 @@ export interface HarnessConfig {
   /** Extra args appended to all commands (e.g. ['--output-format', 'stream-json']) */
   readonly extraArgs?: readonly string[];
 
+  /**
+   * Flags that take a value but that no hook generates, such as the mode
+   * flags executeCommand adds (--format json). parseCommand keeps them in
+   * extraArgs with their value, so the value is not read as a positional prompt.
+   */
+  readonly valueFlags?: readonly string[];
+
+  /**
+   * Version-gated args appended after extraArgs. The CLI version is taken
+   * from BuildOptions.cliVersion, or probed (`<binary> --version`) when unset.
+   */
+  readonly versionedArgs?: readonly VersionedArgs[];
+
+  /** CLI versions this config is known to work with (reported by `agent-cli check`) */
+  readonly supportedVersions?: VersionRange;
+
   /** CLI flag for working directory (undefined = use process cwd option) */
   readonly cwdFlag?: string;
 
+  /** Environment variables set for every run (e.g. NO_COLOR, telemetry opt-outs) */
+  readonly env?: Readonly<Record<string, string>>;
+
   /** Flags for creating a new session with this ID */
   readonly sessionCreateFlags?: (sessionId: string) => readonly string[];
 
@@ -109,6 +369,12 @@ export interface HarnessConfig {
    */
   readonly sessionResumeFlags?: (sessionId: string) => readonly string[];
 
+  /**
+   * Flags for starting a new session from an existing one's history
+   * (the parent is left untouched). Placed like sessionResumeFlags.
+   */
+  readonly sessionForkFlags?: (sessionId: string) => readonly string[];
+
   /**
    * Model ID decomposition. Returns the full set of flags for model selection.
    * When provided, replaces the default `[modelFlag, modelId]` behavior.
@@ -120,8 +386,8 @@ export interface HarnessConfig {
   readonly decomposeModel?: (modelId: string) => readonly string[];
 
   /**
-   * Reasoning/effort flags. Called when BuildOptions.reasoning is set.
-   * Only codex uses this (for `-c model_reasoning_effort=X`).
+   * Reasoning/effort flags. Called when BuildOptions.reasoning is set,
+   * with the level already normalized to reasoningLevels.
    * Returns flags to append, or empty array if not supported.
    *
    * This is separate from decomposeModel because oompa passes reasoning
@@ -130,15 +396,231 @@ export interface HarnessConfig {
    * Both paths produce the same CLI flags.
    */
   readonly reasoningFlags?: (level: string) => readonly string[];
+
+  /**
+   * Reasoning via environment instead of flags (e.g. Claude's
+   * MAX_THINKING_TOKENS). Merged over config env, under BuildOptions.env.
+   */
+  readonly reasoningEnv?: (level: string) => Readonly<Record<string, string>>;
+
+  /**
+   * Reasoning as inline config, for CLIs that only read it from their
+   * settings (Gemini's thinking config). Merged with the option hooks'
+   * inlineConfig; undefined for levels the CLI cannot take.
+   */
+  readonly reasoningConfig?: (level: string) => Readonly<Record<string, unknown>> | undefined;
+
+  /** Native limit on agentic turns (e.g. Claude's --max-turns). */
+  readonly maxTurnsFlags?: (turns: number) => readonly string[];
+
+  /**
+   * System prompt delivery. Called when BuildOptions.systemPrompt or
+   * appendSystemPrompt is set; parts the harness cannot take are left out
+   * (and reported through capabilities). File-only CLIs use ctx.writeFile.
+   */
+  readonly systemPromptArgs?: (ctx: SystemPromptContext) => OptionDelivery;
+
+  /**
+   * Delivery for the permission levels below 'full' (sandbox, approval or
+   * permission modes). 'full' always uses bypassFlags.
+   */
+  readonly permissionArgs?: (level: Exclude<PermissionLevel, 'full'>) => OptionDelivery;
+
+  /**
+   * Extra directory delivery. Called with BuildOptions.additionalDirs
+   * (absolute paths) when non-empty.
+   */
+  readonly additionalDirArgs?: (dirs: readonly string[]) => OptionDelivery;
+
+  /**
+   * Tool allow/deny list delivery. Called when BuildOptions.allowedTools or
+   * disallowedTools is non-empty; categories and `mcp:<server>` entries are
+   * mapped to the CLI's own tool names, other names pass through.
+   */
+  readonly toolArgs?: (ctx: ToolFilterContext) => OptionDelivery;
+
+  /**
+   * Permission level that denying the edit category caps the run at, for
+   * CLIs that enforce it through their sandbox (Codex: read-only). Keeps a
+   * higher level, such as a bypass, from undoing the denial.
+   */
+  readonly editDenialLevel?: Exclude<PermissionLevel, 'full'>;
+
+  /**
+   * Image attachment delivery. Called when BuildOptions.attachments holds
+   * images; without it, image attachments make buildCommand throw.
+   */
+  readonly imageArgs?: (ctx: ImageContext) => ImageDelivery;
+
+  /**
+   * MCP server delivery. Called when BuildOptions.mcpServers is non-empty.
+   */
+  readonly mcpArgs?: (ctx: McpContext) => OptionDelivery;
+
+  /**
+   * Native structured output delivery (e.g. Codex --output-schema <file>).
+   * Called when BuildOptions.outputSchema is set.
+   */
+  readonly outputSchemaArgs?: (ctx: OutputSchemaContext) => OptionDelivery;
+
+  /**
+   * Env var that carries the CLI's config as inline JSON (e.g. OpenCode's
+   * OPENCODE_CONFIG_CONTENT). Receives the merged OptionDelivery.inlineConfig.
+   */
+  readonly inlineConfigEnv?: string;
+
+  /**
+   * Env var naming a settings file the CLI reads (e.g. Gemini's
+   * GEMINI_CLI_SYSTEM_SETTINGS_PATH). Used when there is no inlineConfigEnv:
+   * the merged inlineConfig is written to a temp settings.json.
+   */
+  readonly settingsFileEnv?: string;
+
+  /**
+   * Effort levels the harness understands, ordered low → high. Requested
+   * levels on the shared scale snap to the nearest one (omit to pass all).
+   */
+  readonly reasoningLevels?: readonly ReasoningEffort[];
+
+  /**
+   * Built-in stream protocol this harness speaks (e.g. 'gemini' for forks).
+   * executeCommand uses that harness's parser, session capture and mode
+   * flags unless runtime hooks were registered. Defaults to the harness name.
+   */
+  readonly protocol?: HarnessProtocol;
+
+  /**
+   * What this harness supports. Built-in harnesses declare it; when omitted
+   * it is derived from the config fields (see getHarnessCapabilities).
+   */
+  readonly capabilities?: HarnessCapabilities;
 }
 
+// =============================================================================
+// Declarative harness definitions — HarnessConfig as pure JSON
+// =============================================================================
+
+/**
+ * Session flag template: argv with `{id}` placeholders.
+ * The object form only emits flags when the session ID has the given prefix
+ * (e.g. OpenCode's `ses_` guard).
+ */
+export type SessionFlagsTemplate =
+  | readonly string[]
+  | { readonly args: readonly string[]; readonly idPrefix?: string };
+
+/**
+ * Table-driven replacement for HarnessConfig.decomposeModel.
+ *
+ * Applied in order: prefix rewrites, standalone pass-through, then the
+ * first matching suffix is stripped and its flags appended after
+ * `[modelFlag, model]`.
+ */
+export interface ModelDecompositionTemplate {
+  /** Leading model ID rewrites (e.g. { "openai/": "opencode/" }) */
+  readonly prefixRewrites?: Readonly<Record<string, string>>;
+  /** Model IDs passed through without suffix matching */
+  readonly standalone?: readonly string[];
+  /** Model ID suffix → flags (e.g. { "-high": ["-c", "model_reasoning_effort=high"] }) */
+  readonly suffixes?: Readonly<Record<string, readonly string[]>>;
+}
+
+/**
+ * JSON form of a HarnessConfig, as loaded from a harnesses file.
+ *
+ * Every field is optional: an entry is merged over the harness it
+ * `extends` (default: the entry's own name when that harness exists).
+ * Function-valued config fields use templates instead.
+ */
+export interface HarnessDefinition {
+  /** Existing harness to start from; its config and protocol are inherited */
+  readonly extends?: string;
+  readonly binary?: string;
+  readonly baseCmd?: readonly string[];
+  readonly bypassFlags?: readonly string[];
+  readonly modelFlag?: string;
+  readonly promptVia?: PromptDelivery;
+  readonly promptFlag?: string;
+  readonly promptSep?: string;
+  readonly promptFileFlag?: string;
+  readonly largePromptVia?: 'stdin' | 'file';
+  readonly stdin?: StdinBehavior;
+  readonly stdout?: StdoutBehavior;
+  readonly extraArgs?: readonly string[];
+  readonly versionedArgs?: readonly VersionedArgs[];
+  readonly supportedVersions?: VersionRange;
+  readonly cwdFlag?: string;
+  readonly env?: Readonly<Record<string, string>>;
+  readonly protocol?: HarnessProtocol;
+  /** Template for sessionCreateFlags (`{id}` placeholder) */
+  readonly sessionCreateFlags?: SessionFlagsTemplate;
+  /** Template for sessionResumeFlags (`{id}` placeholder) */
+  readonly sessionResumeFlags?: SessionFlagsTemplate;
+  /** Template for sessionForkFlags (`{id}` placeholder) */
+  readonly sessionForkFlags?: SessionFlagsTemplate;
+  /** Template for decomposeModel */
+  readonly decomposeModel?: ModelDecompositionTemplate;
+  /** Template for reasoningFlags (`{level}` placeholder) */
+  readonly reasoningFlags?: readonly string[];
+  readonly reasoningLevels?: readonly ReasoningEffort[];
+  /** Capability overrides, merged over those derived from the compiled config */
+  readonly capabilities?: Partial<HarnessCapabilities>;
+}
+
+/** Shape of a harnesses file: harness name → definition. */
+export type HarnessDefinitionFile = Readonly<Record<string, HarnessDefinition>>;
+
+// =============================================================================
+// Harness profiles — one harness, several accounts
+// =============================================================================
+
+/**
+ * Overrides applied when running a harness under a profile name
+ * (`claude@work`, `codex@team2`). The base harness is the part before `@`.
+ */
+export interface HarnessProfile {
+  /** Binary or wrapper to run instead of the base harness binary */
+  readonly binary?: string;
+  /** Environment overrides for the spawned process (e.g. CLAUDE_CONFIG_DIR, CODEX_HOME) */
+  readonly env?: Readonly<Record<string, string>>;
+  /** Model used when the caller does not pass one */
+  readonly model?: string;
+  /** Args appended after the base harness's config extraArgs */
+  readonly extraArgs?: readonly string[];
+}
+
+/** Shape of a profiles file: profile name → profile. */
+export type HarnessProfileFile = Readonly<Record<string, HarnessProfile>>;
+
+// =============================================================================
+// Model catalog — known models per harness
+// =============================================================================
+
+/** One known model of a harness. */
+export interface ModelEntry {
+  /** Model ID passed to the CLI */
+  readonly id: string;
+  /** Friendly names resolved to this ID by buildCommand (e.g. 'best', 'fast') */
+  readonly aliases?: readonly string[];
+  /** Effort levels accepted as composite `<id>-<effort>` IDs (codex) */
+  readonly efforts?: readonly string[];
+  /** Passed through exactly; never split into model + effort */
+  readonly standalone?: boolean;
+}
+
+/** Shape of a model catalog file: harness name → model entries. */
+export type ModelCatalogFile = Readonly<Record<string, readonly ModelEntry[]>>;
+
 // =============================================================================
 // Build options — what the caller provides
 // =============================================================================
 
 /** Options for building a CLI command. Caller provides these. */
 export interface BuildOptions {
-  /** Model identifier (harness-specific, passed through or decomposed) */
+  /**
+   * Model identifier (harness-specific, passed through or decomposed).
+   * Catalog aliases like 'best' or 'fast' are resolved first.
+   */
   model?: string;
 
   /** Prompt text */
@@ -150,15 +632,32 @@ export interface BuildOptions {
   /** Whether to resume an existing session (vs create new) */
   resume?: boolean;
 
+  /**
+   * Start a new session branched off this one (takes precedence over
+   * resume). sessionId, when set, names the new session where the harness
+   * allows it. Harnesses that cannot fork make buildCommand throw.
+   */
+  forkFromSessionId?: string;
+
   /** Working directory (used with cwdFlag or passed to process options) */
   cwd?: string;
 
-  /** Whether to include permissions bypass flags */
+  /**
+   * Directories the agent may use besides cwd (e.g. a sibling shared
+   * package in a monorepo), resolved against cwd.
+   */
+  additionalDirs?: readonly string[];
+
+  /** Whether to include permissions bypass flags (same as permissionLevel 'full') */
   bypassPermissions?: boolean;
 
+  /** Permission policy; takes precedence over bypassPermissions */
+  permissionLevel?: PermissionLevel;
+
   /**
-   * Reasoning/effort level (codex only).
-   * Adds `-c model_reasoning_effort=X` to the command.
+   * Reasoning/effort level on the shared scale (ReasoningEffort), mapped
+   * to each harness's control; other strings pass through as native levels.
+   * Harnesses without a reasoning control report it via validateBuildOptions.
    *
    * Two ways to specify effort for codex:
    * 1. Composite model ID: model='gpt-5.3-codex-high' (decomposeModel handles it)
@@ -166,10 +665,77 @@ export interface BuildOptions {
    *
    * If the model ID already encodes effort, this field is ignored.
    */
-  reasoning?: string;
+  reasoning?: ReasoningEffort | (string & {});
+
+  /**
+   * Cap on agentic turns, for harnesses with a native flag (maxTurnsFlags).
+   * Dropped elsewhere; executeCommand enforces it by counting tool calls.
+   */
+  maxTurns?: number;
 
   /** Extra args appended after all generated args (project-specific flags) */
   extraArgs?: readonly string[];
+
+  /** Environment overrides for this run, applied over the harness config env */
+  env?: Readonly<Record<string, string>>;
+
+  /** Replace the harness's default system prompt (e.g. a reviewer role) */
+  systemPrompt?: string;
+
+  /** Append instructions to the harness's default system prompt */
+  appendSystemPrompt?: string;
+
+  /** Restrict the agent to these tools (e.g. ['read'] for a read-only reviewer) */
+  allowedTools?: readonly ToolName[];
+
+  /** Take these tools away from the agent (e.g. ['shell', 'web']) */
+  disallowedTools?: readonly ToolName[];
+
+  /** MCP servers for this run, by name (written to temp config where needed) */
+  mcpServers?: Readonly<Record<string, McpServer>>;
+
+  /**
+   * Files to send with the prompt, resolved against cwd. Text files are
+   * inlined into the prompt; images need harness support and throw
+   * otherwise (never dropped silently).
+   */
+  attachments?: readonly Attachment[];
+
+  /**
+   * JSON Schema the final answer must match, for harnesses with a native
+   * flag (outputSchemaArgs). Dropped elsewhere; executeCommand asks for
+   * the JSON in the prompt instead.
+   */
+  outputSchema?: JsonSchema;
+
+  /**
+   * Installed CLI version to build for (selects versionedArgs).
+   * When unset, the binary is probed once per process.
+   */
+  cliVersion?: string;
+
+  /**
+   * Throw when an option cannot be honored by the harness instead of
+   * silently dropping it (see validateBuildOptions).
+   */
+  strict?: boolean;
+}
+
+/** Severity of a BuildOptions validation issue. */
+export type BuildIssueSeverity =
+  /** The command would behave differently than asked (e.g. a fresh session instead of a resume) */
+  | 'error'
+  /** The option is dropped from argv; the rest of the command is unaffected */
+  | 'warning'
+  /** Passed through, but worth a look (e.g. a model missing from the catalog); strict ignores these */
+  | 'info';
+
+/** One option that a harness cannot honor as given. */
+export interface BuildIssue {
+  readonly severity: BuildIssueSeverity;
+  /** The BuildOptions field concerned */
+  readonly option: keyof BuildOptions;
+  readonly message: string;
 }
 
 // =============================================================================
@@ -192,4 +758,108 @@ export interface CommandSpec {
 
   /** The prompt text (for stdin delivery or caller reference) */
   prompt?: string;
+
+  /**
+   * Environment overrides to apply on top of the base env when spawning
+   * (harness config env, then profile env, then BuildOptions.env).
+   */
+  env?: Record<string, string>;
+
+  /**
+   * Directory of temp files the command reads (e.g. system prompt files).
+   * Remove it with cleanupCommandSpec() once the process exits;
+   * runCommand and executeCommand do this automatically.
+   */
+  tempDir?: string;
+}
+
+/** The buildFromConfig step behind a run of argv (see explainCommand). */
+export type BuildStep =
+  | 'binary'
+  | 'baseCmd'
+  | 'resume'
+  | 'fork'
+  | 'permissions'
+  | 'cwd'
+  | 'additionalDirs'
+  | 'model'
+  | 'reasoning'
+  | 'maxTurns'
+  | 'systemPrompt'
+  | 'tools'
+  | 'mcpServers'
+  | 'images'
+  | 'outputSchema'
+  | 'sessionCreate'
+  | 'configExtraArgs'
+  | 'versionedArgs'
+  | 'callerExtraArgs'
+  | 'prompt';
+
+/** Consecutive argv entries added by one build step. */
+export interface CommandSegment {
+  readonly step: BuildStep;
+  readonly args: readonly string[];
+}
+
+/** A built command with its argv broken down by build step. */
+export interface ExplainedCommand {
+  readonly spec: CommandSpec;
+  /** In argv order; their args concatenate to spec.argv */
+  readonly segments: readonly CommandSegment[];
+}
+
+/** A command line read back into buildCommand arguments (see parseCommand). */
+export interface ParsedCommand {
+  readonly harness: string;
+  readonly options: BuildOptions;
+}
+
+// =============================================================================
+// Harness registration — runtime extension point
+// =============================================================================
+
+/** Context passed to a harness's modeExtraArgs hook. */
+export interface HarnessModeContext {
+  /** Turn mode requested by the caller */
+  mode: TurnMode;
+  /** Whether the caller asked for maximum non-interactive mode (permissionLevel 'full') */
+  yolo: boolean;
+  /** Permission level of the turn, if any */
+  permissionLevel?: PermissionLevel;
+  /** Working directory of the turn */
+  cwd: string;
+}
+
+/**
+ * Runtime behavior for a harness, used by executeCommand.
+ *
+ * HarnessConfig stays pure data (how to build argv); these hooks cover
+ * what happens around the process: mode flags, session capture, and
+ * turning stdout JSON into UnifiedAgentEvents.
+ */
+export interface HarnessRuntime {
+  /**
+   * Create a (possibly stateful) parser for one turn's stdout JSON lines.
+   * Harnesses with `stdout: 'text'` receive each raw line as a string,
+   * then `null` once the process exits cleanly.
+   */
+  readonly createParser?: () => (json: unknown) => UnifiedAgentEvent[];
+
+  /** Extract the provider session ID from a stdout JSON line, if present */
+  readonly captureSessionId?: (json: unknown) => string | undefined;
+
+  /** Flags appended by executeCommand for the requested turn mode */
+  readonly modeExtraArgs?: (context: HarnessModeContext) => readonly string[];
+}
+
+/**
+ * Everything registerHarness() needs to add or override a harness.
+ *
+ * Runtime hooks are optional when overriding a built-in harness
+ * (the built-in behavior is kept); a new harness must supply createParser
+ * or name a built-in protocol in its config.
+ */
+export interface HarnessRegistration extends HarnessRuntime {
+  readonly config: HarnessConfig;
 }
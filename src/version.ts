@@ -0,0 +1,64 @@
+import { execFileSync } from 'node:child_process';
+import type { VersionRange } from './types';
+
+/**
+ * Cache of detected CLI versions. Module-level for process lifetime caching.
+ * Key: binary name, Value: version string, or null when it could not be
+ * determined (binary missing, no version in the output).
+ */
+const cache = new Map<string, string | null>();
+
+/** Extract the first `major.minor[.patch]` from `--version` output. */
+export function parseVersion(output: string): string | null {
+  const match = /(\d+)\.(\d+)(?:\.(\d+))?/.exec(output);
+  if (!match) return null;
+  return `${match[1]}.${match[2]}.${match[3] ?? '0'}`;
+}
+
+/** Numeric comparison of dotted versions: negative, zero or positive. */
+export function compareVersions(a: string, b: string): number {
+  const left = a.split('.').map(Number);
+  const right = b.split('.').map(Number);
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    const diff = (left[i] ?? 0) - (right[i] ?? 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
+
+/**
+ * Whether a version falls in [min, max).
+ *
+ * An unknown version is assumed to be the latest release: ranges with only
+ * a lower bound match, ranges capped by `max` (flags for older CLIs) do not.
+ */
+export function versionInRange(version: string | null | undefined, range: VersionRange): boolean {
+  if (!version) return range.max === undefined;
+  if (range.min && compareVersions(version, range.min) < 0) return false;
+  if (range.max && compareVersions(version, range.max) >= 0) return false;
+  return true;
+}
+
+/**
+ * Detect the installed version of a CLI via `<binary> --version`.
+ *
+ * Caches results (including failures) for the process lifetime.
+ * Returns null if the binary is missing, fails, or prints no version.
+ */
+export function detectVersion(binary: string): string | null {
+  if (cache.has(binary)) return cache.get(binary)!;
+
+  let version: string | null = null;
+  try {
+    const output = execFileSync(binary, ['--version'], {
+      encoding: 'utf-8',
+      stdio: ['ignore', 'pipe', 'pipe'],
+      timeout: 10_000,
+    });
+    version = parseVersion(output);
+  } catch {
+    version = null;
+  }
+  cache.set(binary, version);
+  return version;
+}
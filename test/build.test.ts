@@ -1,8 +1,23 @@
-import { describe, it } from 'node:test';
+import { after, describe, it } from 'node:test';
 import assert from 'node:assert/strict';
-import { buildCommand } from '../src/build';
-import { listHarnesses } from '../src/harnesses';
+import { existsSync, mkdtempSync, readFileSync, readdirSync, rmSync, writeFileSync } from 'node:fs';
+import { spawnSync } from 'node:child_process';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { MAX_ARGV_PROMPT_BYTES, buildCommand, cleanupCommandSpec, explainCommand } from '../src/build';
+import { renderShellCommand, shellQuote } from '../src/shell';
+import { parseCommand } from '../src/parse';
+import { capabilityMatrix, getHarnessCapabilities, validateBuildOptions } from '../src/capabilities';
+import { canonicalizeHarness, getHarness, listHarnesses } from '../src/harnesses';
+import { compileHarnessDefinition } from '../src/harnesses/definitions';
+import { registerProfile } from '../src/harnesses/profiles';
+import { getModelCatalog, isKnownModel, registerModels, resolveModelAlias } from '../src/harnesses/models';
 import { resolveBinary } from '../src/resolve';
+import { compareVersions, parseVersion, versionInRange } from '../src/version';
+import { normalizeReasoningEffort } from '../src/reasoning';
+import { mapToolNames } from '../src/tools';
+import { extractJson, validateJsonSchema } from '../src/schema';
+import type { BuildOptions, PermissionLevel } from '../src/types';
 
 // =============================================================================
 // Claude
@@ -260,6 +275,93 @@ describe('gemini', () => {
   });
 });
 
+// =============================================================================
+// Qwen Code (Gemini-family fork)
+// =============================================================================
+
+describe('qwen', () => {
+  it('uses gemini syntax with the qwen binary', () => {
+    const spec = buildCommand('qwen', {
+      model: 'qwen3-coder-plus',
+      prompt: 'hello',
+      bypassPermissions: true,
+    });
+    assert.deepStrictEqual(spec.argv, [
+      'qwen', '--yolo', '-m', 'qwen3-coder-plus', '-p', 'hello',
+    ]);
+    assert.strictEqual(getHarness('qwen').protocol, 'gemini');
+  });
+
+  it('resumes with --resume <uuid>', () => {
+    const spec = buildCommand('qwen', { prompt: 'continue', sessionId: 'qwen-session', resume: true });
+    assert.deepStrictEqual(spec.argv.slice(0, 3), ['qwen', '--resume', 'qwen-session']);
+  });
+});
+
+// =============================================================================
+// Aider
+// =============================================================================
+
+describe('aider', () => {
+  it('builds command with --message prompt and --model', () => {
+    const spec = buildCommand('aider', {
+      model: 'sonnet',
+      prompt: 'rename foo to bar',
+    });
+    assert.deepStrictEqual(spec.argv, [
+      'aider', '--model', 'sonnet',
+      '--no-check-update', '--no-show-release-notes',
+      '--message', 'rename foo to bar',
+    ]);
+    assert.strictEqual(spec.stdin, 'close');
+    assert.strictEqual(spec.stdout, 'text');
+  });
+
+  it('uses --yes-always as bypass', () => {
+    const spec = buildCommand('aider', { prompt: 'test', bypassPermissions: true });
+    assert.ok(spec.argv.includes('--yes-always'));
+  });
+
+  it('ignores session flags (aider has no sessions)', () => {
+    const spec = buildCommand('aider', { prompt: 'test', sessionId: 'abc', resume: true });
+    assert.ok(!spec.argv.includes('abc'));
+  });
+
+  it('maps reasoning to --reasoning-effort', () => {
+    const spec = buildCommand('aider', { model: 'o3', prompt: 'test', reasoning: 'high' });
+    const idx = spec.argv.indexOf('--reasoning-effort');
+    assert.notStrictEqual(idx, -1);
+    assert.strictEqual(spec.argv[idx + 1], 'high');
+  });
+});
+
+// =============================================================================
+// Cursor Agent
+// =============================================================================
+
+describe('cursor-agent', () => {
+  it('builds command with positional prompt and --model', () => {
+    const spec = buildCommand('cursor-agent', {
+      model: 'gpt-5',
+      prompt: 'hello',
+      bypassPermissions: true,
+    });
+    assert.deepStrictEqual(spec.argv, [
+      'cursor-agent', '--force', '--model', 'gpt-5', 'hello',
+    ]);
+    assert.strictEqual(spec.stdin, 'close');
+  });
+
+  it('resumes with --resume <chatId>', () => {
+    const spec = buildCommand('cursor-agent', {
+      prompt: 'continue',
+      sessionId: 'chat-123',
+      resume: true,
+    });
+    assert.deepStrictEqual(spec.argv, ['cursor-agent', '--resume', 'chat-123', 'continue']);
+  });
+});
+
 // =============================================================================
 // Real-world invocation patterns (from oompa + claude-web-view)
 // =============================================================================
@@ -459,9 +561,9 @@ describe('cross-cutting', () => {
     );
   });
 
-  it('listHarnesses returns all four', () => {
+  it('listHarnesses returns all built-in harnesses', () => {
     const harnesses = listHarnesses();
-    assert.deepStrictEqual(harnesses.sort(), ['claude', 'codex', 'gemini', 'opencode']);
+    assert.deepStrictEqual(harnesses.sort(), ['aider', 'claude', 'codex', 'cursor-agent', 'gemini', 'opencode', 'qwen']);
   });
 });
 
@@ -491,7 +593,7 @@ describe('reasoning', () => {
   });
 
   it('standalone reasoning works for all effort levels', () => {
-    for (const level of ['minimal', 'low', 'medium', 'high', 'max', 'xhigh']) {
+    for (const level of ['minimal', 'low', 'medium', 'high', 'xhigh']) {
       const spec = buildCommand('codex', {
         model: 'gpt-5.3-codex',
         prompt: 'test',
@@ -499,17 +601,61 @@ describe('reasoning', () => {
       });
       assert.ok(spec.argv.includes(`model_reasoning_effort=${level}`), `missing effort for ${level}`);
     }
+    const max = buildCommand('codex', { model: 'gpt-5.3-codex', prompt: 'test', reasoning: 'max' });
+    assert.ok(max.argv.includes('model_reasoning_effort=xhigh'), 'max snaps to xhigh');
   });
 
-  it('reasoning is ignored for non-codex harnesses', () => {
+  it('reasoning adds no codex-style flags to other harnesses', () => {
     const spec = buildCommand('claude', {
       model: 'opus',
       prompt: 'test',
-      reasoning: 'high',  // Claude doesn't support reasoning
+      reasoning: 'high',  // Claude takes a thinking budget via env, not a flag
     });
     assert.ok(!spec.argv.includes('-c'));
     assert.ok(!spec.argv.some(f => f.includes('reasoning')));
   });
+
+  it('maps effort to the Claude thinking budget via env', () => {
+    assert.deepStrictEqual(buildCommand('claude', { reasoning: 'high' }).env, { MAX_THINKING_TOKENS: '31999' });
+    assert.deepStrictEqual(buildCommand('claude', { reasoning: '20000' }).env, { MAX_THINKING_TOKENS: '20000' });
+    assert.strictEqual(buildCommand('claude', { reasoning: 'banana' }).env, undefined);
+    const overridden = buildCommand('claude', { reasoning: 'low', env: { MAX_THINKING_TOKENS: '5000' } });
+    assert.deepStrictEqual(overridden.env, { MAX_THINKING_TOKENS: '5000' });
+  });
+
+  it('maps effort to OpenCode variants', () => {
+    const spec = buildCommand('opencode', { model: 'opencode/big-pickle', prompt: 'x', reasoning: 'max' });
+    assert.deepStrictEqual(spec.argv, ['opencode', 'run', '-m', 'opencode/big-pickle', '--variant', 'max', 'x']);
+  });
+
+  it('maps effort to a Gemini thinking budget in settings', () => {
+    const budget = (reasoning: string): unknown => {
+      const spec = buildCommand('gemini', { prompt: 'x', reasoning });
+      const file = spec.env?.GEMINI_CLI_SYSTEM_SETTINGS_PATH;
+      const settings = file ? JSON.parse(readFileSync(file, 'utf-8')) : undefined;
+      cleanupCommandSpec(spec);
+      return settings?.modelConfigs.customOverrides[0].modelConfig.generateContentConfig.thinkingConfig.thinkingBudget;
+    };
+    assert.strictEqual(budget('high'), 16384);
+    assert.strictEqual(budget('2000'), 2000);
+    assert.strictEqual(budget('banana'), undefined);
+    assert.deepStrictEqual(validateBuildOptions('gemini', { reasoning: 'high' }), []);
+  });
+
+  it('snaps shared levels to the levels a harness supports', () => {
+    const effort = (reasoning: string) => {
+      const argv = buildCommand('aider', { reasoning }).argv;
+      return argv[argv.indexOf('--reasoning-effort') + 1];
+    };
+    assert.strictEqual(effort('minimal'), 'low');
+    assert.strictEqual(effort('medium'), 'medium');
+    assert.strictEqual(effort('max'), 'high');
+
+    const config = { ...getHarness('aider'), reasoningLevels: ['low', 'high', 'max'] as const };
+    assert.strictEqual(normalizeReasoningEffort(config, 'medium'), 'low', 'ties go to the lower level');
+    assert.strictEqual(normalizeReasoningEffort(config, 'xhigh'), 'high');
+    assert.strictEqual(normalizeReasoningEffort(config, 'native-level'), 'native-level');
+  });
 });
 
 // =============================================================================
@@ -537,6 +683,9 @@ describe('model loop', () => {
       'openai/gpt-5',  // legacy format
     ],
     gemini: ['gemini-2.5-pro', 'gemini-2.5-flash'],
+    aider: ['sonnet', 'gpt-4o'],
+    'cursor-agent': ['gpt-5', 'sonnet-4'],
+    qwen: ['qwen3-coder-plus', 'qwen3-coder-flash'],
   };
 
   for (const [harness, models] of Object.entries(ALL_MODELS)) {
@@ -577,7 +726,7 @@ describe('model loop', () => {
 
   // Codex models with separate reasoning param (oompa style)
   const CODEX_BASE_MODELS = ['gpt-5.3-codex', 'gpt-5.3-codex-spark'];
-  const REASONING_LEVELS = ['minimal', 'low', 'medium', 'high', 'xhigh', 'max'];
+  const REASONING_LEVELS = ['minimal', 'low', 'medium', 'high', 'xhigh'];
 
   for (const model of CODEX_BASE_MODELS) {
     for (const reasoning of REASONING_LEVELS) {
@@ -648,3 +797,1100 @@ describe('resolve', () => {
     );
   });
 });
+
+// =============================================================================
+// Declarative harness definitions (harnesses.json templates)
+// =============================================================================
+
+describe('harness definitions', () => {
+  it('merges an override over the existing harness of the same name', () => {
+    const config = compileHarnessDefinition('codex', {
+      binary: 'codex-nightly',
+      bypassFlags: ['--yolo'],
+    });
+    assert.strictEqual(config.binary, 'codex-nightly');
+    assert.deepStrictEqual(config.bypassFlags, ['--yolo']);
+    assert.deepStrictEqual(config.baseCmd, ['exec']);
+    // Function fields are inherited from the base config when not templated
+    assert.deepStrictEqual(config.decomposeModel!('gpt-5.3-codex-high'), [
+      '-m', 'gpt-5.3-codex', '-c', 'model_reasoning_effort=high',
+    ]);
+    assert.strictEqual(config.protocol, 'codex');
+  });
+
+  it('compiles session flag templates, including an id prefix guard', () => {
+    const config = compileHarnessDefinition('opencode-next', {
+      extends: 'opencode',
+      sessionCreateFlags: ['--new-session', '{id}'],
+      sessionResumeFlags: { args: ['--session={id}', '--continue'], idPrefix: 'ses_' },
+    });
+    assert.deepStrictEqual(config.sessionCreateFlags!('abc'), ['--new-session', 'abc']);
+    assert.deepStrictEqual(config.sessionResumeFlags!('ses_1'), ['--session=ses_1', '--continue']);
+    assert.deepStrictEqual(config.sessionResumeFlags!('other'), []);
+    assert.strictEqual(config.protocol, 'opencode');
+  });
+
+  it('compiles suffix tables, standalone models and prefix rewrites for decomposeModel', () => {
+    const config = compileHarnessDefinition('codex-alt', {
+      extends: 'codex',
+      modelFlag: '--model',
+      decomposeModel: {
+        prefixRewrites: { 'openai/': '' },
+        standalone: ['gpt-6-spark'],
+        suffixes: { '-high': ['-c', 'model_reasoning_effort=high'] },
+      },
+      reasoningFlags: ['--effort', '{level}'],
+    });
+    assert.deepStrictEqual(config.decomposeModel!('openai/gpt-6-high'), [
+      '--model', 'gpt-6', '-c', 'model_reasoning_effort=high',
+    ]);
+    assert.deepStrictEqual(config.decomposeModel!('gpt-6-spark'), ['--model', 'gpt-6-spark']);
+    assert.deepStrictEqual(config.reasoningFlags!('low'), ['--effort', 'low']);
+  });
+
+  it('requires a full definition or extends for new harnesses', () => {
+    assert.throws(
+      () => compileHarnessDefinition('brand-new', { binary: 'brand-new' }),
+      /missing baseCmd, bypassFlags, modelFlag, promptVia, stdin, stdout/,
+    );
+  });
+
+  it('rejects malformed template fields', () => {
+    assert.throws(
+      () => compileHarnessDefinition('claude', { promptVia: 'stdin' as never }),
+      /"promptVia" must be one of/,
+    );
+    assert.throws(
+      () => compileHarnessDefinition('claude', { sessionResumeFlags: { id: 'x' } as never }),
+      /"sessionResumeFlags" must be an array of strings/,
+    );
+  });
+
+  it('carries env into the compiled config', () => {
+    const config = compileHarnessDefinition('aider-quiet', {
+      extends: 'aider',
+      env: { AIDER_ANALYTICS: 'false' },
+    });
+    assert.deepStrictEqual(config.env, { AIDER_ANALYTICS: 'false' });
+    assert.throws(
+      () => compileHarnessDefinition('claude', { env: { DEBUG: true } as never }),
+      /"env" must map names to string values/,
+    );
+  });
+
+  it('re-derives capabilities from the compiled fields', () => {
+    const noResume = compileHarnessDefinition('cursor-lite', {
+      extends: 'cursor-agent',
+      sessionResumeFlags: [],
+      capabilities: { resume: false },
+    });
+    assert.strictEqual(noResume.capabilities?.resume, false);
+    assert.strictEqual(noResume.capabilities?.bypass, true);
+
+    const guarded = compileHarnessDefinition('opencode-next', {
+      extends: 'opencode',
+      sessionResumeFlags: { args: ['--session', '{id}'], idPrefix: 'sess-' },
+      reasoningFlags: ['--variant', '{level}'],
+    });
+    assert.strictEqual(guarded.capabilities?.resumeIdPrefix, 'sess-');
+    assert.strictEqual(guarded.capabilities?.reasoning, true);
+
+    assert.throws(
+      () => compileHarnessDefinition('claude', { capabilities: { resume: 'yes' } as never }),
+      /"capabilities" must map capability names to booleans/,
+    );
+  });
+
+  it('does not mutate the registry', () => {
+    compileHarnessDefinition('claude', { binary: 'claude-canary' });
+    assert.strictEqual(getHarness('claude').binary, 'claude');
+  });
+});
+
+// =============================================================================
+// Harness profiles (claude@work, codex@team2)
+// =============================================================================
+
+describe('profiles', () => {
+  registerProfile('claude@work', {
+    env: { CLAUDE_CONFIG_DIR: '/home/me/.claude-work' },
+    model: 'opus',
+    extraArgs: ['--verbose'],
+  });
+  registerProfile('codex@team2', {
+    binary: 'codex-team2',
+    env: { CODEX_HOME: '/home/me/.codex-team2' },
+  });
+
+  it('runs the base harness with profile env, default model and extra args', () => {
+    const spec = buildCommand('claude@work', { prompt: 'hello', sessionId: 'abc' });
+    assert.deepStrictEqual(spec.argv, [
+      'claude', '--model', 'opus', '--session-id', 'abc', '--verbose',
+    ]);
+    assert.deepStrictEqual(spec.env, { CLAUDE_CONFIG_DIR: '/home/me/.claude-work' });
+  });
+
+  it('lets the caller model win over the profile default', () => {
+    const spec = buildCommand('claude@work', { model: 'sonnet', prompt: 'hello' });
+    assert.strictEqual(spec.argv[spec.argv.indexOf('--model') + 1], 'sonnet');
+  });
+
+  it('overrides the binary and keeps base syntax', () => {
+    const spec = buildCommand('codex@team2', { model: 'gpt-5.3-codex-high', prompt: 'hi' });
+    assert.strictEqual(spec.argv[0], 'codex-team2');
+    assert.strictEqual(spec.argv[1], 'exec');
+    assert.ok(spec.argv.includes('model_reasoning_effort=high'));
+    assert.deepStrictEqual(spec.env, { CODEX_HOME: '/home/me/.codex-team2' });
+  });
+
+  it('canonicalizes profiles to their base harness', () => {
+    assert.strictEqual(canonicalizeHarness('codex@team2'), 'codex');
+    assert.strictEqual(getHarness('claude@work').promptVia, 'flag');
+  });
+
+  it('plain harnesses carry no env', () => {
+    assert.strictEqual(buildCommand('claude', { prompt: 'x' }).env, undefined);
+  });
+
+  it('layers caller env over profile env', () => {
+    const spec = buildCommand('claude@work', {
+      prompt: 'x',
+      env: { CLAUDE_CONFIG_DIR: '/tmp/override', DEBUG: '1' },
+    });
+    assert.deepStrictEqual(spec.env, { CLAUDE_CONFIG_DIR: '/tmp/override', DEBUG: '1' });
+    assert.deepStrictEqual(getHarness('claude@work').env, { CLAUDE_CONFIG_DIR: '/home/me/.claude-work' });
+  });
+
+  it('throws on unknown profiles', () => {
+    assert.throws(() => buildCommand('claude@nope', {}), /Unknown harness profile: "claude@nope"/);
+  });
+
+  it('rejects malformed profiles', () => {
+    assert.throws(
+      () => registerProfile('claude@bad', { env: { KEY: 1 as unknown as string } }),
+      /"env" must map names to string values/,
+    );
+    assert.throws(() => registerProfile('claude', {}), /<harness>@<profile>/);
+  });
+});
+
+// =============================================================================
+// Capabilities & validation
+// =============================================================================
+
+describe('capabilities', () => {
+  it('declares a capability block for every built-in harness', () => {
+    const matrix = capabilityMatrix();
+    for (const harness of ['claude', 'codex', 'opencode', 'gemini', 'aider', 'cursor-agent', 'qwen']) {
+      assert.ok(matrix[harness], `missing capabilities for ${harness}`);
+    }
+    assert.strictEqual(matrix.claude.sessionCreate, true);
+    assert.strictEqual(matrix.claude.cwdFlag, false);
+    assert.strictEqual(matrix.codex.cwdFlag, true);
+    assert.strictEqual(matrix.opencode.resumeIdPrefix, 'ses_');
+    assert.strictEqual(matrix.aider.streaming, false);
+  });
+
+  it('resolves aliases and profiles to their base capabilities', () => {
+    assert.deepStrictEqual(getHarnessCapabilities('gemini2'), getHarnessCapabilities('gemini'));
+    assert.deepStrictEqual(getHarnessCapabilities('claude@work'), getHarnessCapabilities('claude'));
+  });
+
+  it('reports nothing for supported options', () => {
+    assert.deepStrictEqual(validateBuildOptions('codex', {
+      model: 'gpt-5.3-codex', reasoning: 'high', cwd: '/repo', bypassPermissions: true, prompt: 'x',
+    }), []);
+    assert.deepStrictEqual(validateBuildOptions('claude', { sessionId: 'abc', resume: true }), []);
+  });
+
+  it('warns about options dropped from argv', () => {
+    const issues = validateBuildOptions('cursor-agent', { reasoning: 'high', cwd: '/repo' });
+    assert.deepStrictEqual(issues.map((issue) => [issue.severity, issue.option]), [
+      ['warning', 'reasoning'],
+      ['warning', 'cwd'],
+    ]);
+    assert.deepStrictEqual(
+      validateBuildOptions('opencode', { bypassPermissions: true, sessionId: 'ses_1' }).map((issue) => issue.option),
+      ['sessionId', 'bypassPermissions'],
+    );
+  });
+
+  it('errors when a resume would silently start a new session', () => {
+    const [prefix] = validateBuildOptions('opencode', { sessionId: 'abc', resume: true });
+    assert.strictEqual(prefix.severity, 'error');
+    assert.match(prefix.message, /starting with "ses_"/);
+
+    const [noResume] = validateBuildOptions('aider', { sessionId: 'abc', resume: true });
+    assert.strictEqual(noResume.severity, 'error');
+    assert.strictEqual(noResume.option, 'resume');
+  });
+
+  it('strict buildCommand throws instead of dropping options', () => {
+    assert.throws(
+      () => buildCommand('cursor-agent', { prompt: 'x', reasoning: 'high', strict: true }),
+      /Unsupported options for cursor-agent: cursor-agent has no reasoning effort control/,
+    );
+    assert.throws(
+      () => buildCommand('opencode', { sessionId: 'abc', resume: true, strict: true }),
+      /only resumes session IDs starting with "ses_"/,
+    );
+    const spec = buildCommand('codex', { prompt: 'x', reasoning: 'high', strict: true });
+    assert.ok(spec.argv.includes('model_reasoning_effort=high'));
+  });
+
+  it('non-strict buildCommand keeps dropping silently', () => {
+    const spec = buildCommand('cursor-agent', { prompt: 'x', reasoning: 'high' });
+    assert.deepStrictEqual(spec.argv, ['cursor-agent', 'x']);
+  });
+});
+
+// =============================================================================
+// Vendor CLI versions
+// =============================================================================
+
+describe('versions', () => {
+  it('parses versions out of --version output', () => {
+    assert.strictEqual(parseVersion('1.0.98 (Claude Code)'), '1.0.98');
+    assert.strictEqual(parseVersion('codex-cli 0.46.0'), '0.46.0');
+    assert.strictEqual(parseVersion('aider 0.86'), '0.86.0');
+    assert.strictEqual(parseVersion('unknown'), null);
+  });
+
+  it('compares numerically and checks [min, max) ranges', () => {
+    assert.ok(compareVersions('0.10.0', '0.9.9') > 0);
+    assert.strictEqual(compareVersions('1.0', '1.0.0'), 0);
+    assert.ok(versionInRange('1.0.86', { min: '1.0.86' }));
+    assert.ok(!versionInRange('1.0.85', { min: '1.0.86' }));
+    assert.ok(!versionInRange('2.0.0', { min: '1.0.0', max: '2.0.0' }));
+  });
+
+  it('treats an unknown version as the latest release', () => {
+    assert.ok(versionInRange(null, { min: '1.0.0' }));
+    assert.ok(!versionInRange(null, { max: '1.0.0' }));
+  });
+
+  it('selects version-gated config args from cliVersion', () => {
+    const old = buildCommand('codex', { prompt: 'x', cliVersion: '0.10.0' });
+    assert.ok(!old.argv.includes('--skip-git-repo-check'));
+    const current = buildCommand('codex', { prompt: 'x', cliVersion: '0.50.0' });
+    assert.deepStrictEqual(current.argv, ['codex', 'exec', '--skip-git-repo-check', '--', 'x']);
+  });
+
+  it('accepts version gates in harness definitions', () => {
+    const config = compileHarnessDefinition('gemini-next', {
+      extends: 'gemini',
+      versionedArgs: [{ args: ['--new-flag'], min: '2.0.0' }],
+      supportedVersions: { min: '1.0.0' },
+    });
+    assert.strictEqual(config.versionedArgs?.[0].min, '2.0.0');
+    assert.throws(
+      () => compileHarnessDefinition('gemini', { versionedArgs: [{ min: '1.0.0' }] as never }),
+      /"versionedArgs" must be an array/,
+    );
+  });
+});
+
+// =============================================================================
+// Model catalog
+// =============================================================================
+
+describe('model catalog', () => {
+  it('resolves aliases to catalog IDs', () => {
+    assert.strictEqual(resolveModelAlias('codex', 'fast'), 'gpt-5.3-codex-spark');
+    assert.strictEqual(resolveModelAlias('gemini', 'best'), 'gemini-2.5-pro');
+    assert.strictEqual(resolveModelAlias('claude', 'sonnet'), 'sonnet');
+  });
+
+  it('buildCommand expands aliases, including profile defaults and gemini aliases', () => {
+    const codex = buildCommand('codex', { model: 'fast', prompt: 'x' });
+    assert.deepStrictEqual(codex.argv.slice(2, 4), ['-m', 'gpt-5.3-codex-spark']);
+    assert.deepStrictEqual(buildCommand('claude', { model: 'best' }).argv, ['claude', '--model', 'opus']);
+    assert.deepStrictEqual(buildCommand('gemini3', { model: 'fast' }).argv, ['gemini3', '-m', 'gemini-2.5-flash']);
+  });
+
+  it('knows IDs, aliases and catalog composites', () => {
+    assert.ok(isKnownModel('codex', 'gpt-5.3-codex-xhigh'));
+    assert.ok(isKnownModel('codex', 'best'));
+    assert.ok(!isKnownModel('codex', 'gpt-5.3-codex-spark-high'));
+    assert.ok(!isKnownModel('gemini', 'gemini-9-ultra'));
+    assert.ok(isKnownModel('opencode', 'opencode/anything'), 'harnesses without a catalog accept any model');
+  });
+
+  it('splits composite IDs by the efforts listed for the model', () => {
+    const spec = buildCommand('codex', { model: 'gpt-5-minimal', prompt: 'x' });
+    assert.ok(spec.argv.includes('model_reasoning_effort=minimal'));
+    const unlisted = buildCommand('codex', { model: 'gpt-6-codex-high', prompt: 'x' });
+    assert.deepStrictEqual(unlisted.argv.slice(2, 6), ['-m', 'gpt-6-codex', '-c', 'model_reasoning_effort=high']);
+  });
+
+  it('reports unlisted models as info, which strict ignores', () => {
+    const issues = validateBuildOptions('gemini', { model: 'gemini-9-ultra' });
+    assert.deepStrictEqual(issues.map((issue) => [issue.severity, issue.option]), [['info', 'model']]);
+    assert.doesNotThrow(() => buildCommand('gemini', { model: 'gemini-9-ultra', strict: true }));
+  });
+
+  it('registered entries override built-ins by ID and add new models', () => {
+    registerModels('qwen', [
+      { id: 'qwen3-coder-flash', aliases: ['quick'] },
+      { id: 'qwen3-max', aliases: ['best'], standalone: true },
+    ]);
+    const catalog = getModelCatalog('qwen');
+    assert.deepStrictEqual(catalog.map((entry) => entry.id), ['qwen3-coder-flash', 'qwen3-max', 'qwen3-coder-plus']);
+    assert.strictEqual(resolveModelAlias('qwen', 'best'), 'qwen3-max');
+    assert.strictEqual(resolveModelAlias('qwen', 'fast'), 'fast');
+    assert.throws(() => registerModels('qwen', [{ aliases: [] } as never]), /"id" must be a non-empty string/);
+  });
+});
+
+// =============================================================================
+// System prompts
+// =============================================================================
+
+describe('system prompts', () => {
+  it('claude takes replace and append as flags, without temp files', () => {
+    const spec = buildCommand('claude', { prompt: 'x', systemPrompt: 'You review code.', appendSystemPrompt: 'Be brief.' });
+    assert.deepStrictEqual(spec.argv, [
+      'claude', '--system-prompt', 'You review code.', '--append-system-prompt', 'Be brief.',
+    ]);
+    assert.strictEqual(spec.tempDir, undefined);
+  });
+
+  it('codex reads a replacement from an instructions file and appends developer instructions', () => {
+    const spec = buildCommand('codex', { prompt: 'x', systemPrompt: 'You review code.', appendSystemPrompt: 'Say "done".' });
+    try {
+      assert.ok(spec.tempDir);
+      const file = `${spec.tempDir}/instructions.md`;
+      assert.strictEqual(readFileSync(file, 'utf-8'), 'You review code.');
+      const overrides = spec.argv.filter((_, i) => spec.argv[i - 1] === '-c');
+      assert.deepStrictEqual(overrides, [
+        `experimental_instructions_file=${JSON.stringify(file)}`,
+        'developer_instructions="Say \\"done\\"."',
+      ]);
+      assert.deepStrictEqual(spec.argv.slice(-2), ['--', 'x']);
+    } finally {
+      cleanupCommandSpec(spec);
+    }
+  });
+
+  it('gemini and qwen point their system prompt env var at a temp file', () => {
+    for (const [harness, name] of [['gemini', 'GEMINI_SYSTEM_MD'], ['qwen', 'QWEN_SYSTEM_MD']]) {
+      const spec = buildCommand(harness, { prompt: 'x', systemPrompt: 'You review code.' });
+      try {
+        assert.strictEqual(spec.env?.[name], `${spec.tempDir}/system.md`);
+        assert.strictEqual(readFileSync(spec.env![name], 'utf-8'), 'You review code.');
+        assert.deepStrictEqual(spec.argv, buildCommand(harness, { prompt: 'x' }).argv);
+      } finally {
+        cleanupCommandSpec(spec);
+      }
+    }
+  });
+
+  it('removes the temp dir when a later hook throws', () => {
+    const originalTmp = process.env.TMPDIR;
+    const tmp = mkdtempSync(path.join(tmpdir(), 'agent-cli-hooks-'));
+    process.env.TMPDIR = tmp;
+    try {
+      // The MCP config file is written before the image hook fails to read the attachment.
+      assert.throws(
+        () => buildCommand('claude', {
+          prompt: 'x',
+          mcpServers: { docs: { command: 'docs-mcp' } },
+          attachments: [path.join(tmp, 'missing.png')],
+        }),
+        /ENOENT/
+      );
+      assert.deepStrictEqual(readdirSync(tmp), []);
+    } finally {
+      if (originalTmp === undefined) delete process.env.TMPDIR;
+      else process.env.TMPDIR = originalTmp;
+      rmSync(tmp, { recursive: true, force: true });
+    }
+  });
+
+  it('opencode selects an inline agent and lists appended instructions', () => {
+    const spec = buildCommand('opencode', { prompt: 'x', systemPrompt: 'You review code.', appendSystemPrompt: 'Be brief.' });
+    try {
+      const config = JSON.parse(spec.env!.OPENCODE_CONFIG_CONTENT);
+      assert.deepStrictEqual(config, {
+        agent: { 'agent-cli': { mode: 'primary', prompt: `{file:${spec.tempDir}/system.md}` } },
+        instructions: [`${spec.tempDir}/instructions.md`],
+      });
+      assert.strictEqual(readFileSync(`${spec.tempDir}/instructions.md`, 'utf-8'), 'Be brief.');
+      assert.ok(spec.argv.join(' ').includes('--agent agent-cli'));
+    } finally {
+      cleanupCommandSpec(spec);
+    }
+  });
+
+  it('aider adds appended instructions as a read-only file', () => {
+    const spec = buildCommand('aider', { prompt: 'x', appendSystemPrompt: 'Be brief.' });
+    try {
+      const file = spec.argv[spec.argv.indexOf('--read') + 1];
+      assert.strictEqual(file, `${spec.tempDir}/conventions.md`);
+      assert.strictEqual(readFileSync(file, 'utf-8'), 'Be brief.');
+    } finally {
+      cleanupCommandSpec(spec);
+    }
+  });
+
+  it('cleanupCommandSpec removes the temp dir and tolerates repeats', () => {
+    const spec = buildCommand('gemini', { prompt: 'x', systemPrompt: 'You review code.' });
+    cleanupCommandSpec(spec);
+    assert.ok(!existsSync(spec.tempDir!));
+    assert.doesNotThrow(() => cleanupCommandSpec(spec));
+    assert.doesNotThrow(() => cleanupCommandSpec(buildCommand('gemini', { prompt: 'x' })));
+  });
+
+  it('reports unsupported system prompt options and drops them', () => {
+    assert.deepStrictEqual(
+      validateBuildOptions('gemini', { systemPrompt: 'a', appendSystemPrompt: 'b' }).map((issue) => issue.option),
+      ['appendSystemPrompt']
+    );
+    assert.deepStrictEqual(
+      validateBuildOptions('cursor-agent', { systemPrompt: 'a' }).map((issue) => issue.message),
+      ['cursor-agent cannot replace its system prompt']
+    );
+    assert.throws(
+      () => buildCommand('aider', { prompt: 'x', systemPrompt: 'a', strict: true }),
+      /aider cannot replace its system prompt/
+    );
+    const spec = buildCommand('cursor-agent', { prompt: 'x', systemPrompt: 'a' });
+    assert.deepStrictEqual(spec.argv, buildCommand('cursor-agent', { prompt: 'x' }).argv);
+    assert.strictEqual(spec.tempDir, undefined);
+  });
+});
+
+// =============================================================================
+// Tools
+// =============================================================================
+
+describe('tools', () => {
+  it('maps categories, MCP servers and native names to each vocabulary', () => {
+    const vocabulary = {
+      categories: { shell: ['sh'], edit: ['ed', 'write'], read: ['cat'], web: ['curl'] },
+      mcp: (server: string) => `mcp__${server}`,
+    };
+    assert.deepStrictEqual(
+      mapToolNames(['edit', 'mcp:github', 'Bash(git log:*)', 'write'], vocabulary),
+      ['ed', 'write', 'mcp__github', 'Bash(git log:*)']
+    );
+  });
+
+  it('claude narrows --tools to allowed built-ins and passes deny lists through', () => {
+    const spec = buildCommand('claude', {
+      prompt: 'x',
+      allowedTools: ['read', 'Bash(git diff:*)', 'mcp:github'],
+      disallowedTools: ['edit'],
+    });
+    assert.deepStrictEqual(spec.argv.slice(1), [
+      '--allowedTools', 'Read,Glob,Grep,LS,Bash(git diff:*),mcp__github',
+      '--tools', 'Read,Glob,Grep,LS,Bash',
+      '--disallowedTools', 'Edit,MultiEdit,Write,NotebookEdit',
+    ]);
+  });
+
+  it('gemini and qwen enforce lists through a system settings file', () => {
+    for (const [harness, name] of [['gemini', 'GEMINI_CLI_SYSTEM_SETTINGS_PATH'], ['qwen', 'QWEN_CODE_SYSTEM_SETTINGS_PATH']]) {
+      const spec = buildCommand(harness, { prompt: 'x', allowedTools: ['read', 'mcp:docs'], disallowedTools: ['web'] });
+      try {
+        assert.strictEqual(spec.env?.[name], `${spec.tempDir}/settings.json`);
+        assert.deepStrictEqual(JSON.parse(readFileSync(spec.env![name], 'utf-8')), {
+          tools: {
+            core: ['read_file', 'read_many_files', 'glob', 'search_file_content', 'list_directory'],
+            exclude: ['web_fetch', 'google_web_search'],
+          },
+          mcp: { allowed: ['docs'] },
+        });
+        const flag = spec.argv.indexOf('--allowed-tools');
+        assert.strictEqual(spec.argv[flag + 1], 'read_file,read_many_files,glob,search_file_content,list_directory');
+      } finally {
+        cleanupCommandSpec(spec);
+      }
+    }
+  });
+
+  it('codex disables the categories it cannot allow, and denied MCP servers', () => {
+    const spec = buildCommand('codex', {
+      prompt: 'x',
+      cliVersion: '0.50.0',
+      allowedTools: ['read', 'web'],
+      disallowedTools: ['mcp:github', 'mcp:my.docs'],
+    });
+    assert.deepStrictEqual(spec.argv.filter((_, i) => spec.argv[i - 1] === '-c'), [
+      'features.shell_tool=false',
+      'sandbox_mode="read-only"',
+      'mcp_servers.github.enabled=false',
+      'mcp_servers."my.docs".enabled=false',
+    ]);
+  });
+
+  it('codex keeps the read-only sandbox when edits are denied, even with a bypass', () => {
+    const argv = buildCommand('codex', { prompt: 'x', cliVersion: '0.50.0', bypassPermissions: true, disallowedTools: ['edit'] }).argv;
+    assert.ok(!argv.includes('--dangerously-bypass-approvals-and-sandbox'));
+    assert.deepStrictEqual(argv.slice(2, 4), ['--sandbox', 'read-only']);
+    assert.deepStrictEqual(
+      buildCommand('codex', { prompt: 'x', permissionLevel: 'workspace-write', allowedTools: ['read'] }).argv.slice(2, 4),
+      ['--sandbox', 'read-only']
+    );
+    assert.deepStrictEqual(
+      validateBuildOptions('codex', { bypassPermissions: true, disallowedTools: ['edit'] }).map((issue) => issue.message),
+      ['codex runs at read-only instead of full while edits are denied']
+    );
+    assert.ok(buildCommand('codex', { prompt: 'x', bypassPermissions: true, disallowedTools: ['web'] }).argv
+      .includes('--dangerously-bypass-approvals-and-sandbox'));
+  });
+
+  it('opencode merges tool settings into the inline config with the system prompt', () => {
+    const spec = buildCommand('opencode', {
+      prompt: 'x',
+      appendSystemPrompt: 'Be brief.',
+      allowedTools: ['read', 'mcp:docs'],
+      disallowedTools: ['list'],
+    });
+    try {
+      assert.deepStrictEqual(JSON.parse(spec.env!.OPENCODE_CONFIG_CONTENT), {
+        instructions: [`${spec.tempDir}/instructions.md`],
+        tools: { '*': false, read: true, grep: true, glob: true, list: false, 'docs_*': true },
+      });
+    } finally {
+      cleanupCommandSpec(spec);
+    }
+  });
+
+  it('reports tool lists on harnesses that cannot restrict tools', () => {
+    assert.deepStrictEqual(
+      validateBuildOptions('aider', { allowedTools: ['read'], disallowedTools: [] }).map((issue) => issue.option),
+      ['allowedTools']
+    );
+    assert.throws(
+      () => buildCommand('cursor-agent', { prompt: 'x', disallowedTools: ['shell'], strict: true }),
+      /cursor-agent cannot restrict its tools \(disallowedTools\)/
+    );
+    assert.deepStrictEqual(capabilityMatrix().claude.toolFilter, true);
+  });
+});
+
+// =============================================================================
+// Attachments
+// =============================================================================
+
+describe('attachments', () => {
+  const dir = mkdtempSync(path.join(tmpdir(), 'agent-cli-attach-test-'));
+  const image = path.join(dir, 'shot one.png');
+  const notes = path.join(dir, 'notes.md');
+  writeFileSync(image, Buffer.from([0x89, 0x50, 0x4e, 0x47]));
+  writeFileSync(notes, '# Notes');
+  after(() => rmSync(dir, { recursive: true, force: true }));
+
+  it('inlines text files into the prompt on every harness', () => {
+    for (const harness of ['aider', 'cursor-agent', 'codex']) {
+      const spec = buildCommand(harness, { prompt: 'summarize', attachments: ['notes.md'], cwd: dir });
+      assert.strictEqual(spec.prompt, `summarize\n\n<attachment path="${notes}">\n# Notes\n</attachment>`);
+      assert.strictEqual(spec.argv[spec.argv.length - 1], spec.prompt);
+    }
+  });
+
+  it('codex passes images with -i and opencode with --file', () => {
+    const codex = buildCommand('codex', { prompt: 'x', attachments: [image], cliVersion: '0.50.0' });
+    assert.deepStrictEqual(codex.argv.slice(codex.argv.indexOf('-i'), codex.argv.indexOf('-i') + 2), ['-i', image]);
+    const opencode = buildCommand('opencode', { prompt: 'x', attachments: [{ path: image, kind: 'image' }] });
+    assert.deepStrictEqual(opencode.argv, ['opencode', 'run', '--file', image, 'x']);
+  });
+
+  it('gemini references images with @ in the prompt', () => {
+    const spec = buildCommand('gemini', { prompt: 'what is this?', attachments: [image] });
+    assert.deepStrictEqual(spec.argv, ['gemini', '-p', `@${image.replace(/ /g, '\\ ')} what is this?`]);
+  });
+
+  it('claude sends images as stream-json content blocks on stdin', () => {
+    const spec = buildCommand('claude', { prompt: 'what is this?', attachments: [image] });
+    assert.deepStrictEqual(spec.argv, ['claude', '--input-format', 'stream-json']);
+    assert.ok(spec.prompt!.endsWith('\n'));
+    assert.deepStrictEqual(JSON.parse(spec.prompt!), {
+      type: 'user',
+      message: {
+        role: 'user',
+        content: [
+          { type: 'image', source: { type: 'base64', media_type: 'image/png', data: 'iVBORw==' } },
+          { type: 'text', text: 'what is this?' },
+        ],
+      },
+    });
+  });
+
+  it('throws for images on harnesses without support, even without strict', () => {
+    assert.deepStrictEqual(
+      validateBuildOptions('aider', { attachments: [image, notes] }).map((issue) => [issue.severity, issue.option]),
+      [['error', 'attachments']]
+    );
+    assert.throws(
+      () => buildCommand('cursor-agent', { prompt: 'x', attachments: [image] }),
+      new RegExp(`cursor-agent cannot take image attachments \\(${image.replace(/[.]/g, '\\.')}\\)`)
+    );
+    assert.doesNotThrow(() => buildCommand('cursor-agent', { prompt: 'x', attachments: [notes] }));
+  });
+});
+
+// =============================================================================
+// MCP servers
+// =============================================================================
+
+describe('MCP servers', () => {
+  const servers = {
+    github: { command: 'npx', args: ['-y', '@modelcontextprotocol/server-github'], env: { GITHUB_TOKEN: 't' } },
+    'docs.api': { url: 'https://mcp.example.com/mcp', headers: { Authorization: 'Bearer x' } },
+  };
+
+  it('claude writes a temp --mcp-config file', () => {
+    const spec = buildCommand('claude', { prompt: 'x', mcpServers: servers });
+    try {
+      const file = spec.argv[spec.argv.indexOf('--mcp-config') + 1];
+      assert.strictEqual(file, `${spec.tempDir}/mcp.json`);
+      assert.deepStrictEqual(JSON.parse(readFileSync(file, 'utf-8')), {
+        mcpServers: {
+          github: {
+            type: 'stdio', command: 'npx', args: ['-y', '@modelcontextprotocol/server-github'], env: { GITHUB_TOKEN: 't' },
+          },
+          'docs.api': { type: 'http', url: 'https://mcp.example.com/mcp', headers: { Authorization: 'Bearer x' } },
+        },
+      });
+    } finally {
+      cleanupCommandSpec(spec);
+    }
+  });
+
+  it('codex sets mcp_servers fields with TOML overrides', () => {
+    const spec = buildCommand('codex', { prompt: 'x', cliVersion: '0.50.0', mcpServers: servers });
+    assert.deepStrictEqual(spec.argv.filter((_, i) => spec.argv[i - 1] === '-c'), [
+      'mcp_servers.github.command="npx"',
+      'mcp_servers.github.args=["-y","@modelcontextprotocol/server-github"]',
+      'mcp_servers.github.env={ GITHUB_TOKEN = "t" }',
+      'mcp_servers."docs.api".url="https://mcp.example.com/mcp"',
+      'mcp_servers."docs.api".http_headers={ Authorization = "Bearer x" }',
+    ]);
+    assert.strictEqual(spec.tempDir, undefined);
+  });
+
+  it('gemini merges servers and tool lists into one settings file', () => {
+    const spec = buildCommand('gemini', { prompt: 'x', mcpServers: servers, disallowedTools: ['mcp:github'] });
+    try {
+      assert.deepStrictEqual(JSON.parse(readFileSync(spec.env!.GEMINI_CLI_SYSTEM_SETTINGS_PATH, 'utf-8')), {
+        tools: {},
+        mcp: { excluded: ['github'] },
+        mcpServers: {
+          github: { command: 'npx', args: ['-y', '@modelcontextprotocol/server-github'], env: { GITHUB_TOKEN: 't' } },
+          'docs.api': { httpUrl: 'https://mcp.example.com/mcp', headers: { Authorization: 'Bearer x' } },
+        },
+      });
+    } finally {
+      cleanupCommandSpec(spec);
+    }
+  });
+
+  it('opencode adds local and remote servers to the inline config', () => {
+    const spec = buildCommand('opencode', { prompt: 'x', mcpServers: servers });
+    assert.deepStrictEqual(JSON.parse(spec.env!.OPENCODE_CONFIG_CONTENT), {
+      mcp: {
+        github: {
+          type: 'local',
+          command: ['npx', '-y', '@modelcontextprotocol/server-github'],
+          enabled: true,
+          environment: { GITHUB_TOKEN: 't' },
+        },
+        'docs.api': {
+          type: 'remote', url: 'https://mcp.example.com/mcp', enabled: true, headers: { Authorization: 'Bearer x' },
+        },
+      },
+    });
+  });
+
+  it('warns on harnesses without per-run MCP servers', () => {
+    assert.deepStrictEqual(
+      validateBuildOptions('aider', { mcpServers: servers }).map((issue) => issue.message),
+      ['aider cannot take per-run MCP servers']
+    );
+    assert.deepStrictEqual(validateBuildOptions('aider', { mcpServers: {} }), []);
+  });
+});
+
+describe('permission levels', () => {
+  const argvFor = (harness: string, permissionLevel: PermissionLevel) =>
+    buildCommand(harness, { prompt: 'x', permissionLevel }).argv;
+
+  it('claude maps levels below full to --permission-mode', () => {
+    assert.deepStrictEqual(argvFor('claude', 'read-only'), ['claude', '--permission-mode', 'default']);
+    assert.ok(argvFor('claude', 'plan').join(' ').includes('--permission-mode plan'));
+    assert.ok(argvFor('claude', 'workspace-write').join(' ').includes('--permission-mode acceptEdits'));
+    assert.ok(argvFor('claude', 'full').includes('--dangerously-skip-permissions'));
+  });
+
+  it('codex maps levels to sandbox modes', () => {
+    assert.ok(argvFor('codex', 'read-only').join(' ').includes('--sandbox read-only'));
+    assert.ok(argvFor('codex', 'plan').join(' ').includes('--sandbox read-only'));
+    assert.ok(argvFor('codex', 'workspace-write').includes('--full-auto'));
+    assert.ok(argvFor('codex', 'full').includes('--dangerously-bypass-approvals-and-sandbox'));
+  });
+
+  it('gemini and qwen map levels to approval modes', () => {
+    assert.ok(argvFor('gemini', 'plan').join(' ').includes('--approval-mode default'));
+    assert.ok(argvFor('gemini', 'workspace-write').join(' ').includes('--approval-mode auto_edit'));
+    assert.ok(argvFor('gemini', 'full').includes('--yolo'));
+    assert.ok(argvFor('qwen', 'plan').join(' ').includes('--approval-mode plan'));
+    assert.ok(argvFor('qwen', 'workspace-write').join(' ').includes('--approval-mode auto-edit'));
+  });
+
+  it('opencode sets the permission config', () => {
+    const spec = buildCommand('opencode', { prompt: 'x', permissionLevel: 'workspace-write' });
+    assert.deepStrictEqual(JSON.parse(spec.env!.OPENCODE_CONFIG_CONTENT), { permission: { edit: 'allow', bash: 'ask' } });
+    assert.strictEqual(buildCommand('opencode', { prompt: 'x', permissionLevel: 'full' }).env, undefined);
+  });
+
+  it('bypassPermissions is the full level', () => {
+    assert.deepStrictEqual(
+      buildCommand('codex', { prompt: 'x', bypassPermissions: true }).argv,
+      buildCommand('codex', { prompt: 'x', permissionLevel: 'full' }).argv
+    );
+    assert.ok(!buildCommand('codex', { prompt: 'x', bypassPermissions: true, permissionLevel: 'plan' })
+      .argv.includes('--dangerously-bypass-approvals-and-sandbox'));
+  });
+
+  it('lists the levels each harness maps', () => {
+    assert.deepStrictEqual(getHarnessCapabilities('codex').permissionLevels, ['read-only', 'plan', 'workspace-write', 'full']);
+    assert.deepStrictEqual(getHarnessCapabilities('opencode').permissionLevels, ['read-only', 'plan', 'workspace-write']);
+    assert.deepStrictEqual(getHarnessCapabilities('cursor-agent').permissionLevels, ['full']);
+  });
+
+  it('warns on levels a harness cannot map', () => {
+    assert.deepStrictEqual(
+      validateBuildOptions('cursor-agent', { permissionLevel: 'plan' }).map((issue) => issue.message),
+      ['cursor-agent has no plan permission level']
+    );
+    assert.throws(() => buildCommand('opencode', { prompt: 'x', permissionLevel: 'full', strict: true }), /no full permission level/);
+  });
+});
+
+describe('additional directories', () => {
+  it('claude and codex repeat --add-dir with absolute paths', () => {
+    const claude = buildCommand('claude', { prompt: 'x', cwd: '/repo/app', additionalDirs: ['../shared', '/opt/lib'] });
+    assert.deepStrictEqual(claude.argv, ['claude', '--add-dir', '/repo/shared', '--add-dir', '/opt/lib']);
+    const codex = buildCommand('codex', { prompt: 'x', cwd: '/repo/app', additionalDirs: ['../shared'] });
+    assert.deepStrictEqual(codex.argv.slice(0, 6), ['codex', 'exec', '-C', '/repo/app', '--add-dir', '/repo/shared']);
+  });
+
+  it('gemini and qwen take one comma-joined --include-directories', () => {
+    for (const harness of ['gemini', 'qwen']) {
+      const argv = buildCommand(harness, { prompt: 'x', additionalDirs: ['/a', '/b'] }).argv;
+      assert.strictEqual(argv[argv.indexOf('--include-directories') + 1], '/a,/b');
+    }
+  });
+
+  it('warns on harnesses without extra directory access', () => {
+    assert.deepStrictEqual(
+      validateBuildOptions('opencode', { additionalDirs: ['/a'] }).map((issue) => issue.message),
+      ['opencode cannot use directories outside its working directory']
+    );
+    assert.deepStrictEqual(validateBuildOptions('opencode', { additionalDirs: [] }), []);
+    assert.deepStrictEqual(
+      buildCommand('aider', { prompt: 'x', additionalDirs: ['/a'] }).argv,
+      buildCommand('aider', { prompt: 'x' }).argv
+    );
+  });
+});
+
+describe('turn limits', () => {
+  it('claude takes --max-turns; harnesses without a native limit drop it', () => {
+    assert.deepStrictEqual(buildCommand('claude', { prompt: 'x', maxTurns: 5 }).argv, ['claude', '--max-turns', '5']);
+    assert.deepStrictEqual(
+      buildCommand('codex', { prompt: 'x', maxTurns: 5 }).argv,
+      buildCommand('codex', { prompt: 'x' }).argv
+    );
+    assert.deepStrictEqual(listHarnesses().filter((name) => getHarnessCapabilities(name).maxTurns), ['claude']);
+  });
+
+  it('strict buildCommand refuses a turn limit the harness cannot pass', () => {
+    assert.throws(
+      () => buildCommand('codex', { prompt: 'x', maxTurns: 3, strict: true }),
+      /codex has no turn limit flag; only executeCommand enforces maxTurns/
+    );
+    assert.deepStrictEqual(buildCommand('claude', { prompt: 'x', maxTurns: 3, strict: true }).argv, [
+      'claude', '--max-turns', '3',
+    ]);
+  });
+});
+
+describe('session forks', () => {
+  it('claude forks with --resume --fork-session and can name the new session', () => {
+    assert.deepStrictEqual(
+      buildCommand('claude', { prompt: 'x', forkFromSessionId: 'parent', sessionId: 'child' }).argv,
+      ['claude', '--resume', 'parent', '--fork-session', '--session-id', 'child']
+    );
+    assert.deepStrictEqual(
+      buildCommand('claude', { prompt: 'x', forkFromSessionId: 'parent', sessionId: 'other', resume: true }).argv,
+      ['claude', '--resume', 'parent', '--fork-session', '--session-id', 'other']
+    );
+  });
+
+  it('throws on harnesses that cannot fork, even without strict', () => {
+    for (const harness of ['codex', 'gemini', 'opencode', 'aider', 'cursor-agent']) {
+      assert.strictEqual(getHarnessCapabilities(harness).fork, false);
+      assert.throws(
+        () => buildCommand(harness, { prompt: 'x', forkFromSessionId: 'parent' }),
+        new RegExp(`${harness} cannot fork sessions`)
+      );
+    }
+  });
+
+  it('definitions can add a fork template', () => {
+    const config = compileHarnessDefinition('codex', { sessionForkFlags: ['fork', '{id}'] });
+    assert.deepStrictEqual(config.sessionForkFlags!('thread-1'), ['fork', 'thread-1']);
+    assert.strictEqual(config.capabilities!.fork, true);
+  });
+});
+
+describe('large prompts', () => {
+  const large = 'x'.repeat(MAX_ARGV_PROMPT_BYTES + 1);
+
+  it('keeps prompts up to the limit in argv', () => {
+    const prompt = 'x'.repeat(MAX_ARGV_PROMPT_BYTES);
+    const spec = buildCommand('codex', { prompt });
+    assert.strictEqual(spec.stdin, 'close');
+    assert.deepStrictEqual(spec.argv.slice(-2), ['--', prompt]);
+  });
+
+  it('moves larger prompts to stdin for codex, gemini and opencode', () => {
+    for (const harness of ['codex', 'gemini', 'opencode']) {
+      const spec = buildCommand(harness, { prompt: large });
+      assert.strictEqual(spec.stdin, 'prompt');
+      assert.strictEqual(spec.prompt, large);
+      assert.ok(!spec.argv.includes(large));
+    }
+    assert.ok(!buildCommand('gemini', { prompt: large }).argv.includes('-p'));
+  });
+
+  it('counts bytes, not characters', () => {
+    assert.strictEqual(buildCommand('codex', { prompt: 'é'.repeat(MAX_ARGV_PROMPT_BYTES / 2 + 1) }).stdin, 'prompt');
+  });
+
+  it('passes larger prompts to aider as a temp --message-file', () => {
+    const spec = buildCommand('aider', { prompt: large });
+    try {
+      assert.strictEqual(spec.stdin, 'close');
+      assert.ok(!spec.argv.includes('--message'));
+      const file = spec.argv[spec.argv.indexOf('--message-file') + 1];
+      assert.strictEqual(readFileSync(file, 'utf-8'), large);
+      assert.strictEqual(path.dirname(file), spec.tempDir);
+    } finally {
+      cleanupCommandSpec(spec);
+    }
+  });
+
+  it('leaves the prompt in argv for harnesses without another input', () => {
+    assert.strictEqual(buildCommand('cursor-agent', { prompt: large }).argv.at(-1), large);
+  });
+
+  it('definitions can opt into file delivery', () => {
+    const config = compileHarnessDefinition('aider', { promptVia: 'file', promptFileFlag: '--message-file' });
+    assert.strictEqual(config.promptVia, 'file');
+    assert.throws(
+      () => compileHarnessDefinition('aider', { largePromptVia: 'socket' as never }),
+      /"largePromptVia" must be one of stdin, file/
+    );
+  });
+});
+
+describe('shell rendering', () => {
+  it('quotes words for a POSIX shell', () => {
+    assert.strictEqual(shellQuote('--model=gpt-5'), '--model=gpt-5');
+    assert.strictEqual(shellQuote('=ls'), "'=ls'");
+    assert.strictEqual(shellQuote('/tmp/a b'), "'/tmp/a b'");
+    assert.strictEqual(shellQuote("it's $HOME"), "'it'\\''s $HOME'");
+    assert.strictEqual(shellQuote(''), "''");
+  });
+
+  it('renders env, cwd and stdin', () => {
+    const spec = buildCommand('claude', { prompt: 'hi there', env: { API_KEY: 'k 1' } });
+    assert.strictEqual(
+      renderShellCommand(spec, { cwd: '/repo' }),
+      "cd /repo && printf '%s' 'hi there' | API_KEY='k 1' claude"
+    );
+    assert.strictEqual(renderShellCommand(spec, { stdinFile: 'prompt.txt', env: { DEBUG: '1' } }),
+      "API_KEY='k 1' DEBUG=1 claude < prompt.txt");
+    assert.strictEqual(renderShellCommand({ argv: ['aider'], stdin: 'pipe', stdout: 'text' }), 'aider');
+  });
+
+  it('the shell line runs the same argv', () => {
+    const spec = buildCommand('codex', { prompt: 'say "hi" & exit; it\'s `fine`', extraArgs: ['--json'] });
+    const echo = { ...spec, argv: [process.execPath, '-e', 'console.log(JSON.stringify(process.argv.slice(1)))', ...spec.argv] };
+    const out = spawnSync('sh', ['-c', renderShellCommand(echo)], { encoding: 'utf8' });
+    assert.deepStrictEqual(JSON.parse(out.stdout), spec.argv);
+  });
+});
+
+describe('explainCommand', () => {
+  it('labels each argv segment with its build step', () => {
+    const { spec, segments } = explainCommand('claude', {
+      prompt: 'x',
+      sessionId: 'abc',
+      resume: true,
+      permissionLevel: 'plan',
+      model: 'opus',
+      reasoning: 'high',
+      systemPrompt: 'Review.',
+      extraArgs: ['--verbose'],
+    });
+    assert.deepStrictEqual(segments.flatMap((segment) => segment.args), spec.argv);
+    assert.deepStrictEqual(segments.map((segment) => segment.step), [
+      'binary', 'resume', 'permissions', 'model', 'systemPrompt', 'callerExtraArgs',
+    ]);
+  });
+
+  it('matches buildCommand', () => {
+    const options = { prompt: 'x', model: 'gpt-5.3-codex-high', cwd: '/repo', cliVersion: '0.50.0' };
+    assert.deepStrictEqual(explainCommand('codex', options).spec, buildCommand('codex', options));
+  });
+});
+
+describe('parseCommand', () => {
+  it('round-trips with buildCommand', () => {
+    const cases: Array<[string, BuildOptions]> = [
+      ['codex', { model: 'gpt-5.3-codex-high', prompt: 'fix it', cwd: '/repo', bypassPermissions: true }],
+      ['codex', { sessionId: 'thread-1', resume: true, prompt: 'again', permissionLevel: 'workspace-write' }],
+      ['claude', { model: 'opus', sessionId: 'abc', permissionLevel: 'plan', maxTurns: 4, extraArgs: ['--verbose'] }],
+      ['claude', { forkFromSessionId: 'parent', sessionId: 'child' }],
+      ['opencode', { model: 'opencode/gpt-5', sessionId: 'ses_1', resume: true, prompt: 'hi', reasoning: 'high' }],
+      ['gemini', { model: 'gemini-2.5-pro', prompt: 'hello', permissionLevel: 'workspace-write' }],
+      ['aider', { model: 'sonnet', prompt: 'refactor', reasoning: 'medium', bypassPermissions: true }],
+      ['cursor-agent', { sessionId: 'chat-1', resume: true, prompt: 'go', bypassPermissions: true }],
+    ];
+    for (const [harness, options] of cases) {
+      const built = buildCommand(harness, { ...options, cliVersion: '99.0.0' });
+      const parsed = parseCommand(built.argv);
+      assert.strictEqual(parsed.harness, harness);
+      assert.deepStrictEqual(buildCommand(harness, { ...parsed.options, cliVersion: '99.0.0' }).argv, built.argv, harness);
+    }
+  });
+
+  it('re-composes codex model and effort into a catalog ID', () => {
+    const { options } = parseCommand(['codex', 'exec', '-m', 'gpt-5.3-codex', '-c', 'model_reasoning_effort=high', '--', 'x']);
+    assert.strictEqual(options.model, 'gpt-5.3-codex-high');
+    assert.strictEqual(options.reasoning, undefined);
+    assert.strictEqual(options.prompt, 'x');
+  });
+
+  it('keeps unknown flags as extraArgs and drops generated ones', () => {
+    const { harness, options } = parseCommand([
+      '/usr/local/bin/aider', '--no-check-update', '--no-show-release-notes', '--model=sonnet', '--map-tokens', '0',
+      '--message', 'hi',
+    ]);
+    assert.strictEqual(harness, 'aider');
+    assert.deepStrictEqual(options, { model: 'sonnet', prompt: 'hi', extraArgs: ['--map-tokens', '0'] });
+  });
+
+  it('puts legacy flag orders back in canonical order', () => {
+    const legacy = ['claude', '--model', 'opus', '--resume', 'abc', '--dangerously-skip-permissions', '-p'];
+    const { harness, options } = parseCommand(legacy);
+    assert.deepStrictEqual(buildCommand(harness, options).argv, [
+      'claude', '--resume', 'abc', '--dangerously-skip-permissions', '--model', 'opus', '-p',
+    ]);
+  });
+
+  it('throws on commands no harness runs', () => {
+    assert.throws(() => parseCommand(['vim', 'notes.md']), /no harness runs vim/);
+  });
+
+  it('recognizes gemini aliases by binary', () => {
+    const built = buildCommand('gemini2', { model: 'gemini-2.5-pro', prompt: 'hello' });
+    const parsed = parseCommand(built.argv);
+    assert.strictEqual(parsed.harness, 'gemini2');
+    assert.deepStrictEqual(buildCommand(parsed.harness, parsed.options).argv, built.argv);
+  });
+
+  it('does not take a flag value for the positional prompt', () => {
+    assert.deepStrictEqual(parseCommand(['opencode', 'run', '--format', 'json']).options, {
+      extraArgs: ['--format', 'json'],
+    });
+    assert.deepStrictEqual(parseCommand(['opencode', 'run', '--format', 'json', 'fix it']).options, {
+      prompt: 'fix it',
+      extraArgs: ['--format', 'json'],
+    });
+  });
+
+  it('moves a legacy claude -p prompt to stdin', () => {
+    const { harness, options } = parseCommand(['claude', '-p', 'fix the bug', '--model', 'opus']);
+    assert.deepStrictEqual(options, { prompt: 'fix the bug', model: 'opus', extraArgs: ['-p'] });
+    const rebuilt = buildCommand(harness, options);
+    assert.deepStrictEqual(rebuilt.argv, ['claude', '--model', 'opus', '-p']);
+    assert.strictEqual(rebuilt.prompt, 'fix the bug');
+    assert.strictEqual(rebuilt.stdin, 'prompt');
+  });
+
+  it('throws on a turn limit that is not a whole number', () => {
+    assert.throws(() => parseCommand(['claude', '-p', '--max-turns', 'abc']), /"abc" is not a positive whole number/);
+    assert.throws(() => parseCommand(['claude', '--max-turns', '2.5']), /"2.5"/);
+  });
+});
+
+describe('structured output', () => {
+  const schema = {
+    type: 'object',
+    properties: {
+      verdict: { enum: ['approve', 'reject'] },
+      comments: { type: 'array', items: { type: 'string' }, maxItems: 2 },
+    },
+    required: ['verdict'],
+    additionalProperties: false,
+  };
+
+  it('claude takes the schema inline, codex as a temp file', () => {
+    const claude = buildCommand('claude', { prompt: 'x', outputSchema: schema });
+    assert.deepStrictEqual(claude.argv, ['claude', '--json-schema', JSON.stringify(schema)]);
+
+    const { spec, segments } = explainCommand('codex', { prompt: 'x', outputSchema: schema, cliVersion: '0.50.0' });
+    const file = segments.find((segment) => segment.step === 'outputSchema')!.args[1];
+    assert.strictEqual(path.dirname(file), spec.tempDir);
+    assert.deepStrictEqual(JSON.parse(readFileSync(file, 'utf-8')), schema);
+    cleanupCommandSpec(spec);
+  });
+
+  it('warns on harnesses without a native schema flag', () => {
+    assert.deepStrictEqual(
+      listHarnesses().filter((name) => getHarnessCapabilities(name).outputSchema),
+      ['claude', 'codex']
+    );
+    assert.deepStrictEqual(
+      validateBuildOptions('gemini', { outputSchema: schema }).map((issue) => issue.message),
+      ['gemini has no native output schema flag']
+    );
+  });
+
+  it('validates values against the schema', () => {
+    assert.deepStrictEqual(validateJsonSchema({ verdict: 'approve', comments: ['ok'] }, schema), []);
+    assert.deepStrictEqual(validateJsonSchema({ verdict: 'maybe', comments: ['a', 2, 'c'], extra: true }, schema), [
+      '$.verdict: expected one of "approve", "reject"',
+      '$.comments: more than 2 items',
+      '$.comments[1]: expected string, got integer',
+      '$.extra: not allowed',
+    ]);
+    assert.deepStrictEqual(validateJsonSchema([], schema), ['$: expected object, got array']);
+    assert.deepStrictEqual(validateJsonSchema({}, schema), ['$.verdict: required']);
+    assert.deepStrictEqual(
+      validateJsonSchema({ id: 1.5 }, { properties: { id: { $ref: '#/$defs/id' } }, $defs: { id: { type: 'integer' } } }),
+      ['$.id: expected integer, got number']
+    );
+    assert.deepStrictEqual(validateJsonSchema('abc', { pattern: '(' }), ['$: invalid pattern /(/']);
+    assert.deepStrictEqual(validateJsonSchema(JSON.parse('{}'), { required: ['toString'] }), ['$.toString: required']);
+    assert.deepStrictEqual(validateJsonSchema({ a: 1 }, { $ref: '#' }), ['$: circular #']);
+    const tree = { type: 'object', properties: { children: { type: 'array', items: { $ref: '#' } } } };
+    assert.deepStrictEqual(validateJsonSchema({ children: [{ children: [] }, { children: 1 }] }, tree), [
+      '$.children[1].children: expected array, got integer',
+    ]);
+  });
+
+  it('extracts JSON from prose and code fences', () => {
+    assert.deepStrictEqual(extractJson(' {"a": 1}\n'), { value: { a: 1 } });
+    assert.deepStrictEqual(extractJson('Here:\n```json\n{"a": 1}\n```\nDone.'), { value: { a: 1 } });
+    assert.deepStrictEqual(extractJson('The result is {"a": [1, 2]} as asked.'), { value: { a: [1, 2] } });
+    assert.deepStrictEqual(extractJson('null'), { value: null });
+    assert.strictEqual(extractJson('no json here'), undefined);
+  });
+});
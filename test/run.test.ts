@@ -1,19 +1,49 @@
 import { describe, it, before, after } from 'node:test';
 import assert from 'node:assert/strict';
-import { spawnSync } from 'node:child_process';
-import { chmodSync, mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { spawn, spawnSync } from 'node:child_process';
+import { chmodSync, existsSync, mkdirSync, mkdtempSync, readFileSync, readdirSync, rmSync, writeFileSync } from 'node:fs';
 import { tmpdir } from 'node:os';
 import path from 'node:path';
 import { createClaudeParser, executeCommand, type UnifiedAgentEvent } from '../src/run';
+import { getHarness, listHarnesses, registerHarness } from '../src/harnesses';
+import { registerProfile } from '../src/harnesses/profiles';
 
 function writeCodexShim(binDir: string): void {
   const shimPath = path.join(binDir, 'codex');
   const shimSource = `#!/usr/bin/env node
 const args = process.argv.slice(2);
 const sep = args.indexOf('--');
-const prompt = sep >= 0 ? (args[sep + 1] ?? '') : '';
 const emit = (obj) => process.stdout.write(JSON.stringify(obj) + '\\n');
 
+if (args[0] === '--version') {
+  process.stdout.write('codex-cli 0.50.1\\n');
+  process.exit(0);
+}
+
+if (args[args.indexOf('-m') + 1] === 'exit-before-stdin') {
+  process.exit(3);
+}
+
+if (args[args.indexOf('-m') + 1] === 'close-stdin-early') {
+  // Stops reading its prompt, finishes the turn anyway and exits 0.
+  require('node:fs').closeSync(0);
+  emit({ type: 'thread.started', thread_id: 'thread-partial-stdin' });
+  emit({ type: 'item.completed', item: { type: 'agent_message', text: 'done' } });
+  emit({ type: 'turn.completed' });
+  setTimeout(() => process.exit(0), 200);
+  return;
+}
+
+// Like codex exec: without a prompt argument, read it from stdin.
+const prompt = sep >= 0 ? (args[sep + 1] ?? '') : require('node:fs').readFileSync(0, 'utf8');
+
+if (prompt.startsWith('large-prompt')) {
+  emit({ type: 'thread.started', thread_id: 'thread-large' });
+  emit({ type: 'item.completed', item: { type: 'agent_message', text: 'read ' + prompt.length + ' chars' } });
+  emit({ type: 'turn.completed' });
+  process.exit(0);
+}
+
 if (prompt === 'contract-success') {
   emit({ type: 'thread.started', thread_id: 'thread-final' });
   emit({ type: 'turn.started' });
@@ -39,6 +69,82 @@ if (prompt === 'flag-check') {
   process.exit(0);
 }
 
+if (prompt === 'env-check') {
+  emit({ type: 'thread.started', thread_id: process.env.CODEX_HOME ?? 'no-codex-home' });
+  emit({ type: 'turn.completed' });
+  process.exit(0);
+}
+
+if (prompt === 'env-leak-check') {
+  const seen = [
+    process.env.CODEX_HOME ?? 'no-codex-home',
+    process.env.AGENT_CLI_TEST_SECRET ?? 'no-secret',
+    process.env.PATH ? 'path' : 'no-path',
+  ];
+  emit({ type: 'thread.started', thread_id: seen.join('|') });
+  emit({ type: 'turn.completed' });
+  process.exit(0);
+}
+
+if (prompt === 'contract-tool-loop') {
+  emit({ type: 'thread.started', thread_id: 'thread-loop' });
+  emit({ type: 'turn.started' });
+  // Like codex: every command is reported when it starts and again when it completes.
+  let call = 0;
+  setInterval(() => {
+    const item = { id: 'item_' + (call += 1), type: 'command_execution', command: 'npm test' };
+    emit({ type: 'item.started', item });
+    emit({ type: 'item.completed', item: { ...item, exit_code: 1 } });
+  }, 10);
+  return;
+}
+
+if (prompt.startsWith('contract-structured')) {
+  const schemaIdx = args.indexOf('--output-schema');
+  const schema = JSON.parse(require('node:fs').readFileSync(args[schemaIdx + 1], 'utf8'));
+  const verdict = prompt === 'contract-structured-invalid' ? 'maybe' : schema.properties.verdict.enum[0];
+  emit({ type: 'thread.started', thread_id: 'thread-structured' });
+  emit({ type: 'turn.started' });
+  emit({ type: 'item.completed', item: { type: 'agent_message', text: 'Checking the diff.' } });
+  emit({ type: 'item.completed', item: { type: 'command_execution', command: 'git diff', exit_code: 0 } });
+  emit({ type: 'item.completed', item: { type: 'agent_message', text: JSON.stringify({ verdict }) } });
+  emit({ type: 'turn.completed' });
+  process.exit(0);
+}
+
+if (prompt === 'contract-hang') {
+  emit({ type: 'thread.started', thread_id: 'thread-hang' });
+  emit({ type: 'turn.started' });
+  setInterval(() => {}, 1000);
+  return;
+}
+
+if (prompt === 'contract-process-tree') {
+  // Shrugs off SIGINT; its tool process only dies to SIGKILL and holds stderr open until then.
+  process.on('SIGINT', () => {});
+  const tool = require('node:child_process').spawn(process.execPath, ['-e', [
+    'process.on("SIGINT", () => {});',
+    'process.on("SIGTERM", () => {});',
+    'process.stdout.write("ready");',
+    'setInterval(() => {}, 1000);',
+  ].join(' ')], { stdio: ['ignore', 'pipe', 'inherit'] });
+  tool.stdout.once('data', () => emit({ type: 'thread.started', thread_id: 'tree-' + tool.pid }));
+  setInterval(() => {}, 1000);
+  return;
+}
+
+if (prompt === 'contract-orphan-tool') {
+  // Dies to SIGINT; its tool shrugs SIGINT off and holds none of our stdio.
+  const tool = require('node:child_process').spawn(process.execPath, ['-e', [
+    'process.on("SIGINT", () => {});',
+    'process.stdout.write("ready");',
+    'setInterval(() => {}, 1000);',
+  ].join(' ')], { stdio: ['ignore', 'pipe', 'ignore'] });
+  tool.stdout.once('data', () => emit({ type: 'thread.started', thread_id: 'orphan-' + tool.pid }));
+  setInterval(() => {}, 1000);
+  return;
+}
+
 if (prompt === 'contract-stderr') {
   emit({ type: 'thread.started', thread_id: 'thread-stderr' });
   emit({ type: 'turn.started' });
@@ -77,6 +183,25 @@ if (prompt === 'gemini-success') {
   process.exit(0);
 }
 
+if (prompt.startsWith('gemini-structured')) {
+  const asked = prompt.includes('matches this JSON Schema');
+  emit({ type: 'init', session_id: 'gemini-session-3' });
+  emit({ type: 'message', role: 'assistant', content: 'Here is my review:\\n\\n' });
+  const fence = '\\x60\\x60\\x60';
+  const answer = JSON.stringify({ verdict: asked ? 'reject' : 'none' });
+  emit({ type: 'message', role: 'assistant', content: fence + 'json\\n' + answer + '\\n' + fence + '\\n' });
+  emit({ type: 'result', status: 'success' });
+  process.exit(0);
+}
+
+if (prompt === 'gemini-system-prompt') {
+  const system = require('node:fs').readFileSync(process.env.GEMINI_SYSTEM_MD, 'utf8');
+  emit({ type: 'init', session_id: 'gemini-session-2' });
+  emit({ type: 'message', role: 'assistant', content: 'system: ' + system });
+  emit({ type: 'result', status: 'success' });
+  process.exit(0);
+}
+
 if (prompt === 'gemini-resume-success') {
   if (resumeSession !== 'gemini-session-1') {
     process.stderr.write('Use --list-sessions to see available sessions, then use --resume {number}, --resume {uuid}, or --resume latest.\\n');
@@ -95,6 +220,167 @@ process.exit(0);
   chmodSync(shimPath, 0o755);
 }
 
+function writeAiderShim(binDir: string): void {
+  const shimPath = path.join(binDir, 'aider');
+  const shimSource = `#!/usr/bin/env node
+const messageIdx = process.argv.indexOf('--message');
+const prompt = messageIdx >= 0 ? (process.argv[messageIdx + 1] ?? '') : '';
+const out = (line) => process.stdout.write(line + '\\n');
+
+out('Aider v0.86.1');
+out('Main model: sonnet with diff edit format');
+out('Git repo: .git with 12 files');
+out('Repo-map: using 4096 tokens, auto refresh');
+out('');
+
+if (prompt === 'aider-edit') {
+  out('I will rename the function.');
+  out('');
+  out('Applied edit to src/app.py');
+  out('Commit 1a2b3c4 refactor: rename foo to bar');
+  out('Tokens: 2.1k sent, 120 received. Cost: $0.01 message, $0.01 session.');
+  process.exit(0);
+}
+
+if (prompt === 'aider-quota') {
+  out('litellm.RateLimitError: You exceeded your current quota');
+  process.exit(0);
+}
+
+process.exit(1);
+`;
+
+  writeFileSync(shimPath, shimSource);
+  chmodSync(shimPath, 0o755);
+}
+
+function writeClaudeShim(binDir: string): void {
+  const shimPath = path.join(binDir, 'claude');
+  const shimSource = `#!/usr/bin/env node
+const emit = (obj) => process.stdout.write(JSON.stringify(obj) + '\\n');
+const sessionId = process.argv.includes('--fork-session') ? 'claude-fork-1' : 'claude-session-1';
+emit({ type: 'system', subtype: 'init', session_id: sessionId });
+if (process.argv.includes('--max-turns')) {
+  emit({ type: 'result', subtype: 'error_max_turns', is_error: true, num_turns: 2, session_id: sessionId });
+  process.exit(0);
+}
+if (process.argv.includes('--json-schema')) {
+  const structured = { verdict: 'approve' };
+  emit({ type: 'result', subtype: 'success', is_error: false, result: '', structured_output: structured, session_id: sessionId });
+  process.exit(0);
+}
+emit({ type: 'result', subtype: 'success', is_error: false, result: 'ok', session_id: sessionId });
+process.exit(0);
+`;
+
+  writeFileSync(shimPath, shimSource);
+  chmodSync(shimPath, 0o755);
+}
+
+function writeCursorShim(binDir: string): void {
+  const shimPath = path.join(binDir, 'cursor-agent');
+  const shimSource = `#!/usr/bin/env node
+const args = process.argv.slice(2);
+const prompt = args[args.length - 1] ?? '';
+const resumeIdx = args.indexOf('--resume');
+const chatId = resumeIdx >= 0 ? args[resumeIdx + 1] : 'cursor-chat-1';
+const emit = (obj) => process.stdout.write(JSON.stringify(obj) + '\\n');
+
+if (!args.includes('-p') || !args.includes('stream-json')) {
+  process.stderr.write('expected -p --output-format stream-json\\n');
+  process.exit(2);
+}
+
+if (prompt === 'cursor-success') {
+  emit({ type: 'system', subtype: 'init', session_id: chatId, model: 'gpt-5' });
+  emit({ type: 'user', message: { role: 'user', content: [{ type: 'text', text: prompt }] }, session_id: chatId });
+  emit({ type: 'tool_call', subtype: 'started', call_id: 'c1', tool_call: { shellToolCall: { args: { command: 'ls -la' } } }, session_id: chatId });
+  emit({ type: 'tool_call', subtype: 'completed', call_id: 'c1', tool_call: { shellToolCall: { args: { command: 'ls -la' }, result: {} } }, session_id: chatId });
+  emit({ type: 'assistant', message: { role: 'assistant', content: [{ type: 'text', text: 'hi from cursor' }] }, session_id: chatId });
+  emit({ type: 'result', subtype: 'success', is_error: false, result: 'hi from cursor', session_id: chatId });
+  process.exit(0);
+}
+
+if (prompt === 'cursor-error') {
+  emit({ type: 'system', subtype: 'init', session_id: chatId });
+  emit({ type: 'result', subtype: 'error', is_error: true, result: 'usage limit reached', session_id: chatId });
+  process.exit(1);
+}
+
+process.exit(0);
+`;
+
+  writeFileSync(shimPath, shimSource);
+  chmodSync(shimPath, 0o755);
+}
+
+function writeQwenShim(binDir: string): void {
+  const shimPath = path.join(binDir, 'qwen');
+  const shimSource = `#!/usr/bin/env node
+const promptIdx = process.argv.indexOf('-p');
+const prompt = promptIdx >= 0 ? (process.argv[promptIdx + 1] ?? '') : '';
+const emit = (obj) => process.stdout.write(JSON.stringify(obj) + '\\n');
+
+if (!process.argv.includes('stream-json')) {
+  process.exit(2);
+}
+
+if (prompt === 'qwen-success') {
+  emit({ type: 'init', session_id: 'qwen-session-1' });
+  emit({ type: 'message', role: 'assistant', content: 'hi from qwen' });
+  emit({ type: 'result', status: 'success' });
+  process.exit(0);
+}
+
+if (prompt === 'qwen-unknown-event') {
+  emit({ type: 'init', session_id: 'qwen-session-2' });
+  emit({ type: 'mystery' });
+  emit({ type: 'result', status: 'success' });
+  process.exit(0);
+}
+
+process.exit(0);
+`;
+
+  writeFileSync(shimPath, shimSource);
+  chmodSync(shimPath, 0o755);
+}
+
+function writeCustomAgentShim(binDir: string): void {
+  const shimPath = path.join(binDir, 'custom-agent');
+  const shimSource = `#!/usr/bin/env node
+const args = process.argv.slice(2);
+const emit = (obj) => process.stdout.write(JSON.stringify(obj) + '\\n');
+emit({ kind: 'hello', conversation: 'custom-session-1', args });
+emit({ kind: 'say', text: 'hi from custom' });
+emit({ kind: 'bye' });
+process.exit(0);
+`;
+
+  writeFileSync(shimPath, shimSource);
+  chmodSync(shimPath, 0o755);
+}
+
+function writeCustomAgentPlugin(dir: string): string {
+  const pluginPath = path.join(dir, 'custom-agent-plugin.js');
+  writeFileSync(pluginPath, `exports.register = ({ registerHarness }) => {
+  registerHarness('plugin-agent', {
+    config: {
+      binary: 'plugin-agent',
+      baseCmd: [],
+      bypassFlags: [],
+      modelFlag: '--model',
+      promptVia: 'cli-arg',
+      stdin: 'close',
+      stdout: 'jsonl',
+    },
+    createParser: () => () => [],
+  });
+};
+`);
+  return pluginPath;
+}
+
 async function collectEvents(events: AsyncIterable<UnifiedAgentEvent>): Promise<UnifiedAgentEvent[]> {
   const out: UnifiedAgentEvent[] = [];
   for await (const event of events) {
@@ -103,6 +389,11 @@ async function collectEvents(events: AsyncIterable<UnifiedAgentEvent>): Promise<
   return out;
 }
 
+/** Distinct tool calls in an event stream, by callId. */
+function toolCallIds(events: readonly UnifiedAgentEvent[]): string[] {
+  return [...new Set(events.flatMap((event) => (event.type === 'tool.use' && event.callId ? [event.callId] : [])))];
+}
+
 describe('executeCommand contract', { concurrency: true }, () => {
   const originalPath = process.env.PATH ?? '';
   let tempRoot = '';
@@ -114,6 +405,11 @@ describe('executeCommand contract', { concurrency: true }, () => {
     mkdirSync(workspace, { recursive: true });
     writeCodexShim(tempRoot);
     writeGeminiShim(tempRoot);
+    writeCustomAgentShim(tempRoot);
+    writeAiderShim(tempRoot);
+    writeCursorShim(tempRoot);
+    writeClaudeShim(tempRoot);
+    writeQwenShim(tempRoot);
     process.env.PATH = `${tempRoot}:${originalPath}`;
   });
 
@@ -481,4 +777,1077 @@ describe('executeCommand contract', { concurrency: true }, () => {
     assert.match(result.stdout, /"type":"session\.started"/);
     assert.match(result.stdout, /"type":"text\.delta"/);
   });
+
+  it('runs a harness registered at runtime with its own parser, session capture, and mode flags', async () => {
+    registerHarness('custom-agent', {
+      config: {
+        binary: 'custom-agent',
+        baseCmd: ['chat'],
+        bypassFlags: ['--no-confirm'],
+        modelFlag: '--model',
+        promptVia: 'cli-arg',
+        stdin: 'close',
+        stdout: 'jsonl',
+      },
+      createParser: () => (json) => {
+        const obj = json as { kind?: string; text?: string };
+        if (obj.kind === 'say' && obj.text) return [{ type: 'text.delta', text: obj.text }];
+        if (obj.kind === 'bye') return [{ type: 'turn.complete', reason: 'success' }];
+        return [];
+      },
+      captureSessionId: (json) => (json as { conversation?: string }).conversation,
+      modeExtraArgs: ({ mode }) => (mode === 'conversation' ? ['--jsonl'] : []),
+    });
+
+    assert.ok(listHarnesses().includes('custom-agent'));
+    assert.strictEqual(getHarness('custom-agent').binary, 'custom-agent');
+
+    const turn = executeCommand({
+      harness: 'custom-agent',
+      mode: 'conversation',
+      prompt: 'custom-hello',
+      cwd: workspace,
+      model: 'custom-model',
+      yolo: true,
+    });
+
+    assert.deepStrictEqual(turn.spec.argv, [
+      'custom-agent', 'chat', '--no-confirm', '--model', 'custom-model', '--jsonl', 'custom-hello',
+    ]);
+
+    const eventsPromise = collectEvents(turn.events);
+    const completion = await turn.completed;
+    const events = await eventsPromise;
+
+    assert.strictEqual(completion.reason, 'success');
+    assert.strictEqual(completion.sessionId, 'custom-session-1');
+    const text = events
+      .filter((event): event is Extract<UnifiedAgentEvent, { type: 'text.delta' }> => event.type === 'text.delta')
+      .map((event) => event.text)
+      .join('');
+    assert.strictEqual(text, 'hi from custom');
+  });
+
+  it('keeps built-in runtime behavior when only overriding a built-in config', async () => {
+    registerHarness('opencode', {
+      config: { ...getHarness('opencode'), binary: 'opencode-wrapper' },
+    });
+
+    const turn = executeCommand({
+      harness: 'opencode',
+      mode: 'conversation',
+      prompt: 'override-check',
+      cwd: workspace,
+      yolo: false,
+    });
+
+    assert.strictEqual(turn.spec.argv[0], 'opencode-wrapper');
+    assert.ok(turn.spec.argv.includes('--format'));
+
+    // The wrapper binary does not exist; only the built argv matters here.
+    await assert.rejects(turn.completed, /ENOENT/);
+  });
+
+  it('rejects new harnesses registered without a parser', () => {
+    assert.throws(
+      () => registerHarness('parserless', { config: getHarness('claude') }),
+      /must provide createParser/,
+    );
+  });
+
+  it('agent-cli list and info include harnesses registered by AGENT_CLI_PLUGINS', () => {
+    const cliPath = path.join(process.cwd(), 'dist', 'src', 'cli.js');
+    const pluginPath = writeCustomAgentPlugin(tempRoot);
+    const env = { ...process.env, AGENT_CLI_PLUGINS: pluginPath };
+
+    const list = spawnSync(process.execPath, [cliPath, 'list'], { env, encoding: 'utf8' });
+    assert.strictEqual(list.status, 0, list.stderr);
+    assert.ok((JSON.parse(list.stdout) as string[]).includes('plugin-agent'));
+
+    const info = spawnSync(process.execPath, [cliPath, 'info', 'plugin-agent'], { env, encoding: 'utf8' });
+    assert.strictEqual(info.status, 0, info.stderr);
+    assert.strictEqual((JSON.parse(info.stdout) as { binary: string }).binary, 'plugin-agent');
+  });
+
+  it('agent-cli loads harness definitions from AGENT_CLI_HARNESSES', () => {
+    const cliPath = path.join(process.cwd(), 'dist', 'src', 'cli.js');
+    const definitionsPath = path.join(tempRoot, 'harnesses.json');
+    writeFileSync(definitionsPath, JSON.stringify({
+      codex: { bypassFlags: ['--sandbox', 'danger-full-access'] },
+      'gemini-fork': { extends: 'gemini', binary: 'gemini-fork', modelFlag: '--model' },
+    }));
+    const env = { ...process.env, AGENT_CLI_HARNESSES: definitionsPath };
+
+    const build = spawnSync(process.execPath, [
+      cliPath, 'build', '--harness', 'codex', '--prompt', 'hi', '--bypass-permissions',
+    ], { env, encoding: 'utf8' });
+    assert.strictEqual(build.status, 0, build.stderr);
+    const spec = JSON.parse(build.stdout) as { argv: string[] };
+    assert.ok(spec.argv.includes('danger-full-access'));
+    assert.ok(!spec.argv.includes('--dangerously-bypass-approvals-and-sandbox'));
+
+    const fork = spawnSync(process.execPath, [
+      cliPath, 'build', '--harness', 'gemini-fork', '--model', 'm1', '--prompt', 'hi',
+    ], { env, encoding: 'utf8' });
+    assert.strictEqual(fork.status, 0, fork.stderr);
+    assert.deepStrictEqual((JSON.parse(fork.stdout) as { argv: string[] }).argv, [
+      'gemini-fork', '--model', 'm1', '-p', 'hi',
+    ]);
+
+    const list = spawnSync(process.execPath, [cliPath, 'list'], { env, encoding: 'utf8' });
+    assert.ok((JSON.parse(list.stdout) as string[]).includes('gemini-fork'));
+  });
+
+  it('agent-cli fails clearly when AGENT_CLI_HARNESSES points at a missing file', () => {
+    const cliPath = path.join(process.cwd(), 'dist', 'src', 'cli.js');
+    const env = { ...process.env, AGENT_CLI_HARNESSES: path.join(tempRoot, 'missing.json') };
+    const result = spawnSync(process.execPath, [cliPath, 'list'], { env, encoding: 'utf8' });
+    assert.strictEqual(result.status, 1);
+    assert.match(result.stderr, /Failed to read harness definitions/);
+  });
+
+  it('parses aider text output into text, edit and commit events', async () => {
+    const turn = executeCommand({
+      harness: 'aider',
+      mode: 'conversation',
+      prompt: 'aider-edit',
+      cwd: workspace,
+      model: 'sonnet',
+      yolo: true,
+    });
+
+    assert.ok(turn.spec.argv.includes('--yes-always'));
+    assert.ok(turn.spec.argv.includes('--no-pretty'));
+
+    const eventsPromise = collectEvents(turn.events);
+    const completion = await turn.completed;
+    const events = await eventsPromise;
+
+    assert.strictEqual(completion.reason, 'success');
+    const text = events
+      .filter((event): event is Extract<UnifiedAgentEvent, { type: 'text.delta' }> => event.type === 'text.delta')
+      .map((event) => event.text)
+      .join('');
+    assert.strictEqual(text, 'I will rename the function.\n\n');
+
+    const tools = events.filter(
+      (event): event is Extract<UnifiedAgentEvent, { type: 'tool.use' }> => event.type === 'tool.use'
+    );
+    assert.deepStrictEqual(tools.map((event) => [event.name, event.input]), [
+      ['edit', { file_path: 'src/app.py' }],
+      ['git_commit', { hash: '1a2b3c4', message: 'refactor: rename foo to bar' }],
+    ]);
+
+    const reasons = events
+      .filter((event): event is Extract<UnifiedAgentEvent, { type: 'turn.complete' }> => event.type === 'turn.complete')
+      .map((event) => event.reason);
+    assert.deepStrictEqual(reasons, ['success']);
+  });
+
+  it('classifies aider quota errors as out_of_tokens', async () => {
+    const turn = executeCommand({
+      harness: 'aider',
+      mode: 'conversation',
+      prompt: 'aider-quota',
+      cwd: workspace,
+      yolo: false,
+    });
+
+    const eventsPromise = collectEvents(turn.events);
+    const completion = await turn.completed;
+    const events = await eventsPromise;
+
+    assert.strictEqual(completion.reason, 'out_of_tokens');
+    assert.ok(events.some((event) => event.type === 'out_of_tokens'));
+  });
+
+  it('treats a failing aider exit as an error', async () => {
+    const turn = executeCommand({
+      harness: 'aider',
+      mode: 'conversation',
+      prompt: 'aider-unknown',
+      cwd: workspace,
+      yolo: false,
+    });
+
+    const completion = await turn.completed;
+    assert.strictEqual(completion.reason, 'error');
+    assert.strictEqual(completion.exitCode, 1);
+  });
+
+  it('runs cursor-agent in stream-json mode and captures the chat id', async () => {
+    const turn = executeCommand({
+      harness: 'cursor-agent',
+      mode: 'conversation',
+      prompt: 'cursor-success',
+      cwd: workspace,
+      model: 'gpt-5',
+      yolo: true,
+    });
+
+    assert.ok(turn.spec.argv.includes('--force'));
+
+    const eventsPromise = collectEvents(turn.events);
+    const completion = await turn.completed;
+    const events = await eventsPromise;
+
+    assert.strictEqual(completion.reason, 'success');
+    assert.strictEqual(completion.sessionId, 'cursor-chat-1');
+
+    const tools = events.filter(
+      (event): event is Extract<UnifiedAgentEvent, { type: 'tool.use' }> => event.type === 'tool.use'
+    );
+    assert.deepStrictEqual(tools.map((event) => [event.name, event.input]), [['shell', { command: 'ls -la' }]]);
+
+    const text = events
+      .filter((event): event is Extract<UnifiedAgentEvent, { type: 'text.delta' }> => event.type === 'text.delta')
+      .map((event) => event.text)
+      .join('');
+    assert.strictEqual(text, 'hi from cursor');
+  });
+
+  it('resumes cursor-agent chats with --resume', async () => {
+    const turn = executeCommand({
+      harness: 'cursor-agent',
+      mode: 'conversation',
+      prompt: 'cursor-success',
+      cwd: workspace,
+      resumeSessionId: 'cursor-chat-7',
+      yolo: false,
+    });
+
+    const completion = await turn.completed;
+    assert.strictEqual(turn.spec.argv[1], '--resume');
+    assert.strictEqual(turn.spec.argv[2], 'cursor-chat-7');
+    assert.strictEqual(completion.reason, 'success');
+    assert.strictEqual(completion.sessionId, 'cursor-chat-7');
+  });
+
+  it('maps cursor-agent error results to out_of_tokens when quota is exhausted', async () => {
+    const turn = executeCommand({
+      harness: 'cursor-agent',
+      mode: 'conversation',
+      prompt: 'cursor-error',
+      cwd: workspace,
+      yolo: false,
+    });
+
+    const completion = await turn.completed;
+    assert.strictEqual(completion.reason, 'out_of_tokens');
+  });
+
+  it('runs qwen through the shared gemini protocol parser', async () => {
+    const turn = executeCommand({
+      harness: 'qwen',
+      mode: 'conversation',
+      prompt: 'qwen-success',
+      cwd: workspace,
+      model: 'qwen3-coder-plus',
+      yolo: false,
+    });
+
+    const eventsPromise = collectEvents(turn.events);
+    const completion = await turn.completed;
+    const events = await eventsPromise;
+
+    assert.strictEqual(turn.spec.argv[0], 'qwen');
+    assert.strictEqual(completion.reason, 'success');
+    assert.strictEqual(completion.sessionId, 'qwen-session-1');
+    const text = events
+      .filter((event): event is Extract<UnifiedAgentEvent, { type: 'text.delta' }> => event.type === 'text.delta')
+      .map((event) => event.text)
+      .join('');
+    assert.strictEqual(text, 'hi from qwen');
+  });
+
+  it('names qwen (not gemini) in protocol errors', async () => {
+    const turn = executeCommand({
+      harness: 'qwen',
+      mode: 'conversation',
+      prompt: 'qwen-unknown-event',
+      cwd: workspace,
+      yolo: false,
+    });
+
+    const eventsPromise = collectEvents(turn.events);
+    await turn.completed;
+    const errors = (await eventsPromise)
+      .filter((event): event is Extract<UnifiedAgentEvent, { type: 'error' }> => event.type === 'error')
+      .map((event) => event.message);
+    assert.ok(
+      errors.some((message) => message.startsWith('Qwen Code emitted unrecognized event type "mystery"')),
+      `expected qwen-labelled error; got: ${JSON.stringify(errors)}`
+    );
+  });
+
+  it('spawns profile harnesses with the profile environment', async () => {
+    registerProfile('codex@team2', { env: { CODEX_HOME: '/tmp/codex-team2' }, model: 'gpt-5.3-codex' });
+
+    const turn = executeCommand({
+      harness: 'codex@team2',
+      mode: 'conversation',
+      prompt: 'env-check',
+      cwd: workspace,
+      reasoningEffort: 'high',
+      yolo: false,
+    });
+
+    const completion = await turn.completed;
+    assert.strictEqual(completion.reason, 'success');
+    assert.strictEqual(completion.sessionId, '/tmp/codex-team2');
+    assert.ok(turn.spec.argv.includes('gpt-5.3-codex'));
+    assert.ok(turn.spec.argv.includes('model_reasoning_effort=high'));
+  });
+
+  it('agent-cli list and build accept profiles from AGENT_CLI_PROFILES', () => {
+    const cliPath = path.join(process.cwd(), 'dist', 'src', 'cli.js');
+    const profilesPath = path.join(tempRoot, 'profiles.json');
+    writeFileSync(profilesPath, JSON.stringify({
+      'claude@work': { env: { CLAUDE_CONFIG_DIR: '/tmp/claude-work' }, model: 'opus' },
+    }));
+    const env = { ...process.env, AGENT_CLI_PROFILES: profilesPath };
+
+    const list = spawnSync(process.execPath, [cliPath, 'list'], { env, encoding: 'utf8' });
+    assert.strictEqual(list.status, 0, list.stderr);
+    assert.ok((JSON.parse(list.stdout) as string[]).includes('claude@work'));
+
+    const build = spawnSync(process.execPath, [
+      cliPath, 'build', '--harness', 'claude@work', '--prompt', 'hi',
+    ], { env, encoding: 'utf8' });
+    assert.strictEqual(build.status, 0, build.stderr);
+    const spec = JSON.parse(build.stdout) as { argv: string[]; env: Record<string, string> };
+    assert.deepStrictEqual(spec.argv, ['claude', '--model', 'opus']);
+    assert.deepStrictEqual(spec.env, { CLAUDE_CONFIG_DIR: '/tmp/claude-work' });
+  });
+
+  it('layers request env over the inherited environment', async () => {
+    process.env.AGENT_CLI_TEST_SECRET = 'leaked';
+    const turn = executeCommand({
+      harness: 'codex',
+      mode: 'conversation',
+      prompt: 'env-leak-check',
+      cwd: workspace,
+      yolo: false,
+      env: { CODEX_HOME: '/tmp/codex-request' },
+    });
+
+    const completion = await turn.completed;
+    assert.strictEqual(completion.sessionId, '/tmp/codex-request|leaked|path');
+    assert.deepStrictEqual(turn.spec.env, { CODEX_HOME: '/tmp/codex-request' });
+  });
+
+  it('minimalEnv drops parent variables that are not allowlisted', async () => {
+    process.env.AGENT_CLI_TEST_SECRET = 'leaked';
+    const run = (envAllowlist?: string[]) => executeCommand({
+      harness: 'codex',
+      mode: 'conversation',
+      prompt: 'env-leak-check',
+      cwd: workspace,
+      yolo: false,
+      env: { CODEX_HOME: '/tmp/codex-minimal' },
+      minimalEnv: true,
+      envAllowlist,
+    }).completed;
+
+    assert.strictEqual((await run()).sessionId, '/tmp/codex-minimal|no-secret|path');
+    assert.strictEqual(
+      (await run(['AGENT_CLI_TEST_SECRET'])).sessionId,
+      '/tmp/codex-minimal|leaked|path'
+    );
+  });
+
+  it('agent-cli capabilities prints the matrix and build --strict fails on dropped options', () => {
+    const cliPath = path.join(process.cwd(), 'dist', 'src', 'cli.js');
+
+    const all = spawnSync(process.execPath, [cliPath, 'capabilities'], { encoding: 'utf8' });
+    assert.strictEqual(all.status, 0, all.stderr);
+    const matrix = JSON.parse(all.stdout) as Record<string, { resume: boolean; cwdFlag: boolean }>;
+    assert.strictEqual(matrix.codex.cwdFlag, true);
+    assert.strictEqual(matrix.aider.resume, false);
+
+    const one = spawnSync(process.execPath, [cliPath, 'capabilities', 'claude'], { encoding: 'utf8' });
+    assert.deepStrictEqual(Object.keys(JSON.parse(one.stdout)), ['claude']);
+
+    const strict = spawnSync(process.execPath, [
+      cliPath, 'build', '--harness', 'cursor-agent', '--reasoning', 'high', '--strict',
+    ], { encoding: 'utf8' });
+    assert.strictEqual(strict.status, 1);
+    assert.match(strict.stderr, /Unsupported options for cursor-agent/);
+  });
+
+  it('gates claude --include-partial-messages on the CLI version', async () => {
+    registerHarness('claude-versioned', {
+      config: { ...getHarness('claude'), binary: 'custom-agent', protocol: 'claude' },
+    });
+    const argvFor = async (cliVersion: string) => {
+      const turn = executeCommand({
+        harness: 'claude-versioned',
+        mode: 'conversation',
+        prompt: 'hi',
+        cwd: workspace,
+        yolo: false,
+        cliVersion,
+      });
+      await turn.completed;
+      return turn.spec.argv;
+    };
+
+    assert.ok(!(await argvFor('1.0.50')).includes('--include-partial-messages'));
+    assert.ok((await argvFor('1.0.90')).includes('--include-partial-messages'));
+  });
+
+  it('agent-cli check reports the detected version and support', () => {
+    const cliPath = path.join(process.cwd(), 'dist', 'src', 'cli.js');
+    const env = { ...process.env, PATH: `${tempRoot}:${originalPath}` };
+    const result = spawnSync(process.execPath, [cliPath, 'check', 'codex'], { env, encoding: 'utf8' });
+    assert.strictEqual(result.status, 0, result.stderr);
+
+    const report = JSON.parse(result.stdout) as Record<string, unknown>;
+    assert.strictEqual(report.available, true);
+    assert.strictEqual(report.version, '0.50.1');
+    assert.deepStrictEqual(report.supportedVersions, { min: '0.44.0' });
+    assert.strictEqual(report.supported, true);
+  });
+
+  it('agent-cli models lists the catalog with local overrides and warns on unlisted models', () => {
+    const cliPath = path.join(process.cwd(), 'dist', 'src', 'cli.js');
+    const modelsPath = path.join(tempRoot, 'models.json');
+    writeFileSync(modelsPath, JSON.stringify({
+      codex: [{ id: 'gpt-6-codex', aliases: ['next'], efforts: ['high'] }],
+    }));
+    const env = { ...process.env, AGENT_CLI_MODELS: modelsPath };
+
+    const models = spawnSync(process.execPath, [cliPath, 'models', 'codex'], { env, encoding: 'utf8' });
+    assert.strictEqual(models.status, 0, models.stderr);
+    const ids = (JSON.parse(models.stdout) as Array<{ id: string }>).map((entry) => entry.id);
+    assert.strictEqual(ids[0], 'gpt-6-codex');
+    assert.ok(ids.includes('gpt-5.3-codex'));
+
+    const build = spawnSync(process.execPath, [
+      cliPath, 'build', '--harness', 'codex', '--model', 'next', '--cli-version', '0.50.0',
+    ], { env, encoding: 'utf8' });
+    assert.strictEqual(build.status, 0, build.stderr);
+    assert.deepStrictEqual((JSON.parse(build.stdout) as { argv: string[] }).argv.slice(2, 4), ['-m', 'gpt-6-codex']);
+    assert.strictEqual(build.stderr, '');
+
+    const unknown = spawnSync(process.execPath, [
+      cliPath, 'build', '--harness', 'gemini', '--model', 'gemini-9-ultra',
+    ], { env, encoding: 'utf8' });
+    assert.strictEqual(unknown.status, 0, unknown.stderr);
+    assert.match(unknown.stderr, /model "gemini-9-ultra" is not in the gemini catalog/);
+  });
+
+  it('emits a warning when the harness cannot honor reasoning effort', async () => {
+    const turn = executeCommand({
+      harness: 'cursor-agent',
+      mode: 'conversation',
+      prompt: 'cursor-success',
+      cwd: workspace,
+      reasoningEffort: 'high',
+    });
+
+    const events = await collectEvents(turn.events);
+    const completion = await turn.completed;
+    assert.strictEqual(completion.reason, 'success');
+    assert.deepStrictEqual(
+      events.filter((event) => event.type === 'warning'),
+      [{ type: 'warning', message: 'cursor-agent has no reasoning effort control' }]
+    );
+  });
+
+  it('removes the temp dir when the process cannot be spawned', () => {
+    const originalTmp = process.env.TMPDIR;
+    const tmp = mkdtempSync(path.join(tempRoot, 'tmp-'));
+    process.env.TMPDIR = tmp;
+    try {
+      // A NUL byte in argv makes spawn throw before any process exists.
+      assert.throws(
+        () => executeCommand({ harness: 'codex', mode: 'conversation', prompt: 'a\0b', systemPrompt: 'Review.', cwd: workspace }),
+        /null bytes/
+      );
+      assert.deepStrictEqual(readdirSync(tmp), []);
+    } finally {
+      if (originalTmp === undefined) delete process.env.TMPDIR;
+      else process.env.TMPDIR = originalTmp;
+    }
+  });
+
+  it('delivers the system prompt through a temp file removed after the turn', async () => {
+    const turn = executeCommand({
+      harness: 'gemini2',
+      mode: 'conversation',
+      prompt: 'gemini-system-prompt',
+      cwd: workspace,
+      systemPrompt: 'You review code.',
+      appendSystemPrompt: 'Be brief.',
+    });
+
+    const events = await collectEvents(turn.events);
+    const completion = await turn.completed;
+    assert.strictEqual(completion.reason, 'success');
+    const text = events
+      .filter((event): event is Extract<UnifiedAgentEvent, { type: 'text.delta' }> => event.type === 'text.delta')
+      .map((event) => event.text)
+      .join('');
+    assert.strictEqual(text, 'system: You review code.');
+    assert.deepStrictEqual(
+      events.filter((event) => event.type === 'warning'),
+      [{ type: 'warning', message: 'gemini2 cannot append to its system prompt' }]
+    );
+    assert.ok(turn.spec.tempDir);
+    assert.ok(!existsSync(turn.spec.tempDir));
+  });
+
+  it('replaces claude --tools default with the allowlist in yolo mode', async () => {
+    const turn = executeCommand({
+      harness: 'claude',
+      mode: 'conversation',
+      prompt: 'review',
+      cwd: workspace,
+      cliVersion: '2.0.0',
+      allowedTools: ['read', 'mcp:github'],
+      disallowedTools: ['web'],
+    });
+
+    const events = await collectEvents(turn.events);
+    const completion = await turn.completed;
+    assert.strictEqual(completion.reason, 'success');
+    assert.deepStrictEqual(events.filter((event) => event.type === 'warning'), []);
+    const argv = turn.spec.argv;
+    assert.deepStrictEqual(argv.filter((arg, i) => argv[i - 1] === '--tools'), ['Read,Glob,Grep,LS']);
+    assert.strictEqual(argv[argv.indexOf('--allowedTools') + 1], 'Read,Glob,Grep,LS,mcp__github');
+    assert.strictEqual(argv[argv.indexOf('--disallowedTools') + 1], 'WebFetch,WebSearch');
+    assert.ok(argv.includes('bypassPermissions'));
+  });
+
+  it('warns when the harness cannot restrict tools', async () => {
+    const turn = executeCommand({
+      harness: 'cursor-agent',
+      mode: 'conversation',
+      prompt: 'cursor-success',
+      cwd: workspace,
+      disallowedTools: ['shell'],
+    });
+
+    const events = await collectEvents(turn.events);
+    await turn.completed;
+    assert.deepStrictEqual(
+      events.filter((event) => event.type === 'warning'),
+      [{ type: 'warning', message: 'cursor-agent cannot restrict its tools (disallowedTools)' }]
+    );
+  });
+
+  it('refuses image attachments the harness cannot take', () => {
+    assert.throws(
+      () => executeCommand({
+        harness: 'aider',
+        mode: 'conversation',
+        prompt: 'aider-success',
+        cwd: workspace,
+        attachments: ['screenshot.png'],
+      }),
+      /aider cannot take image attachments/
+    );
+  });
+
+  it('refuses claude images in single-shot mode (stream-json input needs stream-json output)', () => {
+    assert.throws(
+      () => executeCommand({
+        harness: 'claude',
+        mode: 'single-shot',
+        prompt: 'describe',
+        cwd: workspace,
+        attachments: ['screenshot.png'],
+      }),
+      /claude cannot take image attachments in single-shot mode/
+    );
+  });
+
+  it('removes temp MCP config before completed resolves', async () => {
+    const turn = executeCommand({
+      harness: 'gemini2',
+      mode: 'conversation',
+      prompt: 'gemini-success',
+      cwd: workspace,
+      mcpServers: { docs: { url: 'https://mcp.example.com/mcp' } },
+    });
+
+    const settingsPath = turn.spec.env?.GEMINI_CLI_SYSTEM_SETTINGS_PATH;
+    assert.ok(settingsPath && existsSync(settingsPath));
+    await collectEvents(turn.events);
+    const completion = await turn.completed;
+    assert.strictEqual(completion.reason, 'success');
+    assert.ok(!existsSync(turn.spec.tempDir!));
+  });
+
+  it('runs claude at an explicit permission level instead of the yolo default', async () => {
+    const turn = executeCommand({
+      harness: 'claude',
+      mode: 'conversation',
+      prompt: 'review',
+      cwd: workspace,
+      cliVersion: '2.0.0',
+      permissionLevel: 'plan',
+    });
+
+    const events = await collectEvents(turn.events);
+    const completion = await turn.completed;
+    assert.strictEqual(completion.reason, 'success');
+    assert.deepStrictEqual(events.filter((event) => event.type === 'warning'), []);
+    const argv = turn.spec.argv;
+    assert.strictEqual(argv[argv.indexOf('--permission-mode') + 1], 'plan');
+    assert.ok(!argv.includes('bypassPermissions'));
+    assert.ok(!argv.includes('--dangerously-skip-permissions'));
+  });
+
+  it('resolves relative additionalDirs against cwd on harnesses without a cwd flag', async () => {
+    const turn = executeCommand({
+      harness: 'claude',
+      mode: 'conversation',
+      prompt: 'review',
+      cwd: workspace,
+      cliVersion: '2.0.0',
+      yolo: false,
+      additionalDirs: ['../shared'],
+    });
+
+    await collectEvents(turn.events);
+    await turn.completed;
+    const argv = turn.spec.argv;
+    assert.strictEqual(argv[argv.indexOf('--add-dir') + 1], path.join(tempRoot, 'shared'));
+  });
+
+  it('resolves relative attachments against cwd on harnesses without a cwd flag', async () => {
+    writeFileSync(path.join(workspace, 'review-notes.txt'), 'check the retry loop');
+    const turn = executeCommand({
+      harness: 'claude',
+      mode: 'conversation',
+      prompt: 'review',
+      cwd: workspace,
+      cliVersion: '2.0.0',
+      attachments: ['review-notes.txt'],
+    });
+
+    await collectEvents(turn.events);
+    assert.strictEqual((await turn.completed).reason, 'success');
+    assert.match(turn.spec.prompt ?? '', /<attachment path=".*review-notes\.txt">\ncheck the retry loop/);
+  });
+
+  it('warns when the harness has no such permission level', async () => {
+    const turn = executeCommand({
+      harness: 'cursor-agent',
+      mode: 'conversation',
+      prompt: 'cursor-success',
+      cwd: workspace,
+      permissionLevel: 'read-only',
+    });
+
+    const events = await collectEvents(turn.events);
+    await turn.completed;
+    assert.deepStrictEqual(
+      events.filter((event) => event.type === 'warning'),
+      [{ type: 'warning', message: 'cursor-agent has no read-only permission level' }]
+    );
+    assert.ok(!turn.spec.argv.includes('--force'));
+  });
+
+  it('stops harnesses without a native turn limit once tool calls pass maxTurns', async () => {
+    const turn = executeCommand({
+      harness: 'codex',
+      mode: 'conversation',
+      prompt: 'contract-tool-loop',
+      cwd: workspace,
+      maxTurns: 3,
+    });
+
+    const events = await collectEvents(turn.events);
+    const completion = await turn.completed;
+    assert.strictEqual(completion.reason, 'max_turns');
+    assert.deepStrictEqual(toolCallIds(events), ['item_1', 'item_2', 'item_3']);
+    assert.deepStrictEqual(events.filter((event) => event.type === 'error'), [
+      { type: 'error', message: 'codex went past its budget of 3 tool calls' },
+    ]);
+    assert.deepStrictEqual(events.filter((event) => event.type === 'turn.complete'), [
+      { type: 'turn.complete', reason: 'max_turns' },
+    ]);
+  });
+
+  it('passes maxTurns to claude as --max-turns and maps its limit result', async () => {
+    const turn = executeCommand({
+      harness: 'claude',
+      mode: 'conversation',
+      prompt: 'review',
+      cwd: workspace,
+      cliVersion: '2.0.0',
+      maxTurns: 2,
+    });
+
+    await collectEvents(turn.events);
+    const completion = await turn.completed;
+    assert.strictEqual(completion.reason, 'max_turns');
+    assert.strictEqual(turn.spec.argv[turn.spec.argv.indexOf('--max-turns') + 1], '2');
+  });
+
+  it('enforces maxSteps on every harness', async () => {
+    const turn = executeCommand({
+      harness: 'codex',
+      mode: 'conversation',
+      prompt: 'contract-tool-loop',
+      cwd: workspace,
+      maxTurns: 10,
+      maxSteps: 2,
+    });
+
+    const events = await collectEvents(turn.events);
+    const completion = await turn.completed;
+    assert.strictEqual(completion.reason, 'max_turns');
+    // Started and completed events of a call count once.
+    assert.deepStrictEqual(toolCallIds(events), ['item_1', 'item_2']);
+    assert.strictEqual(events.filter((event) => event.type === 'tool.use').length, 4);
+  });
+
+  it('forks a claude session and reports the new session id', async () => {
+    const turn = executeCommand({
+      harness: 'claude',
+      mode: 'conversation',
+      prompt: 'plan the workers',
+      cwd: workspace,
+      cliVersion: '2.0.0',
+      forkFromSessionId: 'claude-session-1',
+    });
+
+    const events = await collectEvents(turn.events);
+    const completion = await turn.completed;
+    assert.strictEqual(completion.reason, 'success');
+    assert.strictEqual(completion.sessionId, 'claude-fork-1');
+    assert.deepStrictEqual(events.filter((event) => event.type === 'session.started'), [
+      { type: 'session.started', sessionId: 'claude-fork-1' },
+    ]);
+    const argv = turn.spec.argv;
+    assert.deepStrictEqual(argv.slice(argv.indexOf('--resume'), argv.indexOf('--resume') + 3), [
+      '--resume', 'claude-session-1', '--fork-session',
+    ]);
+  });
+
+  it('refuses to fork on harnesses without a fork mechanism', () => {
+    assert.throws(
+      () => executeCommand({
+        harness: 'codex',
+        mode: 'conversation',
+        prompt: 'contract-success',
+        cwd: workspace,
+        forkFromSessionId: 'thread-final',
+      }),
+      /codex cannot fork sessions/
+    );
+  });
+
+  it('sends prompts too large for argv to codex on stdin', async () => {
+    const prompt = `large-prompt ${'x'.repeat(200_000)}`;
+    const turn = executeCommand({ harness: 'codex', mode: 'conversation', prompt, cwd: workspace });
+
+    const events = await collectEvents(turn.events);
+    const completion = await turn.completed;
+    assert.strictEqual(completion.reason, 'success');
+    assert.strictEqual(turn.spec.stdin, 'prompt');
+    assert.ok(!turn.spec.argv.includes('--'));
+    assert.deepStrictEqual(events.filter((event) => event.type === 'text.delta'), [
+      { type: 'text.delta', text: `read ${prompt.length} chars` },
+    ]);
+  });
+
+  it('fails the turn instead of crashing when codex exits before reading stdin', async () => {
+    // Bigger than the stdin socket buffer, so the write is still pending when codex exits.
+    const prompt = `large-prompt ${'x'.repeat(2_000_000)}`;
+    const turn = executeCommand({ harness: 'codex', mode: 'conversation', prompt, model: 'exit-before-stdin', cwd: workspace });
+
+    const events = await collectEvents(turn.events);
+    await assert.rejects(turn.completed, /codex exited \(code 3\) before reading its stdin: write EPIPE/);
+    assert.deepStrictEqual(events.at(-1), { type: 'turn.complete', reason: 'error' });
+  });
+
+  it('keeps a successful turn when codex stops reading stdin and exits 0', async () => {
+    const prompt = `large-prompt ${'x'.repeat(2_000_000)}`;
+    const turn = executeCommand({ harness: 'codex', mode: 'conversation', prompt, model: 'close-stdin-early', cwd: workspace });
+
+    const events = await collectEvents(turn.events);
+    const completion = await turn.completed;
+    assert.strictEqual(completion.reason, 'success');
+    assert.strictEqual(completion.sessionId, 'thread-partial-stdin');
+    assert.deepStrictEqual(events.at(-1), { type: 'turn.complete', reason: 'success' });
+  });
+
+  it('validates codex answers against a native --output-schema', async () => {
+    const outputSchema = {
+      type: 'object',
+      properties: { verdict: { enum: ['approve', 'reject'] } },
+      required: ['verdict'],
+    };
+    const valid = executeCommand({ harness: 'codex', mode: 'conversation', prompt: 'contract-structured', cwd: workspace, outputSchema });
+    await collectEvents(valid.events);
+    const completion = await valid.completed;
+    assert.strictEqual(completion.reason, 'success');
+    assert.deepStrictEqual(completion.output, { verdict: 'approve' });
+    assert.ok(!valid.spec.prompt?.includes('JSON Schema'));
+
+    const invalid = executeCommand({
+      harness: 'codex', mode: 'conversation', prompt: 'contract-structured-invalid', cwd: workspace, outputSchema,
+    });
+    const events = await collectEvents(invalid.events);
+    const failed = await invalid.completed;
+    assert.strictEqual(failed.reason, 'invalid_output');
+    assert.strictEqual(failed.output, undefined);
+    assert.deepStrictEqual(events.filter((event) => event.type === 'error' || event.type === 'turn.complete'), [
+      { type: 'error', message: 'codex answer does not match outputSchema: $.verdict: expected one of "approve", "reject"' },
+      { type: 'turn.complete', reason: 'invalid_output' },
+    ]);
+  });
+
+  it('takes claude structured_output from the result event', async () => {
+    const turn = executeCommand({
+      harness: 'claude',
+      mode: 'conversation',
+      prompt: 'review',
+      cwd: workspace,
+      cliVersion: '2.0.0',
+      outputSchema: { type: 'object', required: ['verdict'] },
+    });
+    await collectEvents(turn.events);
+    const completion = await turn.completed;
+    assert.strictEqual(completion.reason, 'success');
+    assert.deepStrictEqual(completion.output, { verdict: 'approve' });
+    assert.ok(turn.spec.argv.includes('--json-schema'));
+  });
+
+  it('asks for JSON in the prompt and extracts it on harnesses without a schema flag', async () => {
+    const turn = executeCommand({
+      harness: 'gemini2',
+      mode: 'conversation',
+      prompt: 'gemini-structured',
+      cwd: workspace,
+      outputSchema: { type: 'object', properties: { verdict: { type: 'string' } }, required: ['verdict'] },
+    });
+    const events = await collectEvents(turn.events);
+    const completion = await turn.completed;
+    assert.strictEqual(completion.reason, 'success');
+    assert.deepStrictEqual(completion.output, { verdict: 'reject' });
+    assert.deepStrictEqual(events.filter((event) => event.type === 'warning'), []);
+  });
+
+  it('stops an agent that goes quiet past idleTimeoutMs', async () => {
+    const turn = executeCommand({
+      harness: 'codex',
+      mode: 'conversation',
+      prompt: 'contract-hang',
+      cwd: workspace,
+      idleTimeoutMs: 200,
+    });
+
+    const events = await collectEvents(turn.events);
+    const completion = await turn.completed;
+    assert.strictEqual(completion.reason, 'timeout');
+    assert.strictEqual(completion.sessionId, 'thread-hang');
+    assert.deepStrictEqual(events.filter((event) => event.type === 'error' || event.type === 'turn.complete'), [
+      { type: 'error', message: 'codex produced no output for 200ms (idleTimeoutMs)' },
+      { type: 'turn.complete', reason: 'timeout' },
+    ]);
+  });
+
+  it('stops a busy agent at timeoutMs', async () => {
+    const turn = executeCommand({
+      harness: 'codex',
+      mode: 'conversation',
+      prompt: 'contract-tool-loop',
+      cwd: workspace,
+      timeoutMs: 300,
+      idleTimeoutMs: 5_000,
+    });
+
+    const events = await collectEvents(turn.events);
+    const completion = await turn.completed;
+    assert.strictEqual(completion.reason, 'timeout');
+    assert.ok(events.some((event) => event.type === 'tool.use'));
+    assert.deepStrictEqual(events.filter((event) => event.type === 'error'), [
+      { type: 'error', message: 'codex timed out after 300ms (timeoutMs)' },
+    ]);
+  });
+
+  it('agent-cli run exits with 124 on a timeout', () => {
+    const cliPath = path.join(process.cwd(), 'dist', 'src', 'cli.js');
+    const result = spawnSync(process.execPath, [
+      cliPath, 'run', '--harness', 'codex', '--prompt', 'contract-hang', '--cwd', workspace, '--timeout', '200',
+    ], {
+      env: { ...process.env, PATH: `${tempRoot}:${originalPath}` },
+      encoding: 'utf8',
+    });
+
+    assert.strictEqual(result.status, 124, result.stderr);
+    assert.match(result.stdout, /"type":"turn\.complete","reason":"timeout"/);
+  });
+
+  it('escalates a graceful stop through the whole process group when detached', async () => {
+    const turn = executeCommand({
+      harness: 'codex',
+      mode: 'conversation',
+      prompt: 'contract-process-tree',
+      cwd: workspace,
+      detached: true,
+    });
+
+    const events: UnifiedAgentEvent[] = [];
+    let stoppedAt = 0;
+    for await (const event of turn.events) {
+      events.push(event);
+      if (event.type === 'session.started') {
+        stoppedAt = Date.now();
+        turn.stop({ graceMs: 100 });
+      }
+    }
+    // completed only resolves once the tool process lets go of stderr, i.e. after SIGKILL reached the group.
+    const completion = await turn.completed;
+    assert.strictEqual(completion.reason, 'killed');
+    assert.strictEqual(completion.exitCode, null);
+    assert.match(completion.sessionId, /^tree-\d+$/);
+    assert.ok(Date.now() - stoppedAt >= 200, 'expected SIGINT and SIGTERM to each get the grace period');
+    assert.deepStrictEqual(events.at(-1), { type: 'turn.complete', reason: 'killed' });
+  });
+
+  it('agent-cli run forwards Ctrl-C to the agent and still reports killed', async () => {
+    const cliPath = path.join(process.cwd(), 'dist', 'src', 'cli.js');
+    const cli = spawn(process.execPath, [
+      cliPath, 'run', '--harness', 'codex', '--prompt', 'contract-hang', '--cwd', workspace,
+    ], {
+      env: { ...process.env, PATH: `${tempRoot}:${originalPath}` },
+    });
+
+    let stdout = '';
+    let interrupted = false;
+    const status = await new Promise<number | null>((resolve) => {
+      cli.stdout.on('data', (chunk: Buffer) => {
+        stdout += chunk.toString();
+        if (!interrupted && stdout.includes('"session.started"')) {
+          interrupted = true;
+          cli.kill('SIGINT');
+        }
+      });
+      cli.on('close', resolve);
+    });
+
+    assert.strictEqual(status, 130);
+    assert.deepStrictEqual(JSON.parse(stdout.trim().split('\n').at(-1)!), { type: 'turn.complete', reason: 'killed' });
+  });
+
+  it('agent-cli run stops the tools the agent started', async () => {
+    const cliPath = path.join(process.cwd(), 'dist', 'src', 'cli.js');
+    const cli = spawn(process.execPath, [
+      cliPath, 'run', '--harness', 'codex', '--prompt', 'contract-process-tree', '--cwd', workspace,
+    ], {
+      env: { ...process.env, PATH: `${tempRoot}:${originalPath}` },
+    });
+
+    let stdout = '';
+    let interrupted = false;
+    const status = await new Promise<number | null>((resolve) => {
+      cli.stdout.on('data', (chunk: Buffer) => {
+        stdout += chunk.toString();
+        if (!interrupted && stdout.includes('"session.started"')) {
+          interrupted = true;
+          // The second interrupt kills; the tool only goes if the whole group gets it.
+          cli.kill('SIGINT');
+          setTimeout(() => cli.kill('SIGINT'), 100);
+        }
+      });
+      cli.on('close', resolve);
+    });
+
+    // close only comes once the tool process lets go of stderr, i.e. after SIGKILL reached the group.
+    assert.strictEqual(status, 130);
+    assert.deepStrictEqual(JSON.parse(stdout.trim().split('\n').at(-1)!), { type: 'turn.complete', reason: 'killed' });
+  });
+
+  it('agent-cli run finishes stopping the group after the agent exits, also on SIGHUP', async () => {
+    const cliPath = path.join(process.cwd(), 'dist', 'src', 'cli.js');
+    const cli = spawn(process.execPath, [
+      cliPath, 'run', '--harness', 'codex', '--prompt', 'contract-orphan-tool', '--cwd', workspace,
+    ], {
+      env: { ...process.env, PATH: `${tempRoot}:${originalPath}` },
+    });
+
+    let stdout = '';
+    const status = await new Promise<number | null>((resolve) => {
+      cli.stdout.on('data', (chunk: Buffer) => {
+        stdout += chunk.toString();
+        if (stdout.includes('"session.started"')) cli.kill('SIGHUP');
+      });
+      cli.on('close', resolve);
+    });
+
+    const toolPid = Number(/"sessionId":"orphan-(\d+)"/.exec(stdout)![1]);
+    // Gone, or a zombie nobody reaps (its parent, the agent, is gone).
+    let state: string | undefined;
+    try {
+      process.kill(toolPid, 0);
+      state = readFileSync(`/proc/${toolPid}/stat`, 'utf8').split(') ')[1]?.[0];
+    } catch {
+      state = undefined;
+    }
+    if (state !== undefined && state !== 'Z') process.kill(toolPid, 'SIGKILL');
+    assert.strictEqual(status, 130);
+    assert.ok(state === undefined || state === 'Z', `tool ${toolPid} still running (${state})`);
+  });
+
+  it('agent-cli build --format renders a shell line or an annotated explanation', () => {
+    const cliPath = path.join(process.cwd(), 'dist', 'src', 'cli.js');
+    const args = [
+      cliPath, 'build', '--harness', 'codex', '--model', 'gpt-5.3-codex-high', '--prompt', "fix the user's bug",
+      '--cwd', '/repo', '--cli-version', '0.50.0',
+    ];
+
+    const shell = spawnSync(process.execPath, [...args, '--format', 'shell'], { encoding: 'utf8' });
+    assert.strictEqual(shell.status, 0, shell.stderr);
+    assert.strictEqual(
+      shell.stdout.trim(),
+      "cd /repo && codex exec -C /repo -m gpt-5.3-codex -c model_reasoning_effort=high --skip-git-repo-check "
+        + "-- 'fix the user'\\''s bug' < /dev/null"
+    );
+
+    const explain = spawnSync(process.execPath, [...args, '--format', 'explain'], { encoding: 'utf8' });
+    assert.strictEqual(explain.status, 0, explain.stderr);
+    const steps = explain.stdout.trim().split('\n').map((line) => line.slice(line.lastIndexOf('# ') + 2));
+    assert.deepStrictEqual(steps, ['binary', 'baseCmd', 'cwd', 'model', 'versionedArgs', 'prompt', 'stdin: close']);
+
+    const bad = spawnSync(process.execPath, [...args, '--format', 'yaml'], { encoding: 'utf8' });
+    assert.strictEqual(bad.status, 1);
+    assert.match(bad.stderr, /--format must be one of json, shell, explain/);
+  });
+
+  it('agent-cli normalize rewrites a legacy command line in canonical order', () => {
+    const cliPath = path.join(process.cwd(), 'dist', 'src', 'cli.js');
+    const legacy = ['codex', 'exec', '-m', 'gpt-5.3-codex', '--dangerously-bypass-approvals-and-sandbox', '-C', '/repo',
+      '-c', 'model_reasoning_effort=high', '--json', '--', 'fix the bug'];
+
+    const shell = spawnSync(process.execPath, [cliPath, 'normalize', '--cli-version', '0.50.0', '--', ...legacy], {
+      encoding: 'utf8',
+    });
+    assert.strictEqual(shell.status, 0, shell.stderr);
+    assert.strictEqual(
+      shell.stdout.trim(),
+      'codex exec --dangerously-bypass-approvals-and-sandbox -C /repo -m gpt-5.3-codex -c model_reasoning_effort=high '
+        + "--skip-git-repo-check --json -- 'fix the bug'"
+    );
+
+    const json = spawnSync(process.execPath, [cliPath, 'normalize', '--format', 'json', '--', ...legacy], {
+      encoding: 'utf8',
+    });
+    assert.deepStrictEqual(JSON.parse(json.stdout), {
+      harness: 'codex',
+      options: {
+        model: 'gpt-5.3-codex-high',
+        bypassPermissions: true,
+        cwd: '/repo',
+        prompt: 'fix the bug',
+        extraArgs: ['--json'],
+      },
+    });
+  });
 });